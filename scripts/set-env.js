@@ -4,6 +4,9 @@ const dotenv = require('dotenv');
 // Load environment variables from .env file
 const envConfig = dotenv.config().parsed || {};
 
+// Camera registry (JSON array), validated here so a typo fails the build early
+const devices = JSON.stringify(JSON.parse(envConfig.CAMERA_DEVICES || '[]'));
+
 // Template for environment files
 const generateEnvFile = (production) => `// This file is auto-generated from .env - DO NOT EDIT MANUALLY
 // Generated at: ${new Date().toISOString()}
@@ -13,7 +16,19 @@ export const environment = {
     region: '${envConfig.AWS_REGION || 'us-east-1'}',
     bucketName: '${envConfig.AWS_BUCKET_NAME || ''}',
     bucketFolder: '${envConfig.AWS_BUCKET_FOLDER || ''}',
+    urlExpirySeconds: ${parseInt(envConfig.S3_URL_EXPIRY_SECONDS || '3600', 10)},
+  },
+  storage: {
+    backend: '${envConfig.STORAGE_BACKEND || 's3'}',
+    httpBaseUrl: '${envConfig.STORAGE_HTTP_BASE_URL || ''}',
   },
+  photoKeys: {
+    scheme: '${envConfig.PHOTO_KEY_SCHEME || 'compact'}',
+    prefix: ${JSON.stringify(envConfig.PHOTO_KEY_PREFIX ?? 'cat_')},
+    pattern: ${JSON.stringify(envConfig.PHOTO_KEY_PATTERN || '')},
+    dayPrefix: ${JSON.stringify(envConfig.PHOTO_KEY_DAY_PREFIX || '')},
+  },
+  devices: ${devices} as { id: string, name: string, folder?: string, rotation?: number, brightnessLevel?: number, keyScheme?: { scheme: string, prefix?: string, pattern?: string, dayPrefix?: string } }[],
   google: {
     clientId: '${envConfig.GOOGLE_CLIENT_ID || ''}',
   },
@@ -41,7 +56,12 @@ if (!fs.existsSync('.env')) {
   console.warn('  Copy .env.example to .env and fill in your configuration.');
 } else {
   // Validate required fields
-  const requiredFields = ['GOOGLE_CLIENT_ID', 'COGNITO_IDENTITY_POOL_ID'];
+  const requiredFields = ['GOOGLE_CLIENT_ID'];
+  if (envConfig.STORAGE_BACKEND === 'http') {
+    requiredFields.push('STORAGE_HTTP_BASE_URL');
+  } else {
+    requiredFields.push('COGNITO_IDENTITY_POOL_ID');
+  }
   const missingFields = requiredFields.filter(field => !envConfig[field]);
 
   if (missingFields.length > 0) {
@@ -1,9 +1,11 @@
-import { Component, OnInit } from '@angular/core';
-import { RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
+import { Component, Inject, OnInit } from '@angular/core';
+import { RouterOutlet, RouterLink, RouterLinkActive, Router, NavigationStart } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { AuthService } from './services/auth.service';
 import { GravatarService } from './services/gravatar.service';
-import { S3Service } from './services/s3.service';
+import { PHOTO_STORE, PhotoStore } from './services/photo-store';
+import { PersistentCacheService } from './services/persistent-cache.service';
+import { RequestStats } from './services/request-scheduler';
 
 @Component({
   selector: 'app-root',
@@ -20,10 +22,19 @@ export class AppComponent implements OnInit {
   constructor(
     public authService: AuthService,
     public gravatarService: GravatarService,
-    private s3Service: S3Service
+    @Inject(PHOTO_STORE) public photoStore: PhotoStore,
+    private persistentCache: PersistentCacheService,
+    private router: Router
   ) {}
 
   ngOnInit(): void {
+    // Request counters are per view
+    this.router.events.subscribe(event => {
+      if (event instanceof NavigationStart) {
+        this.photoStore.resetRequestStats();
+      }
+    });
+
     this.authService.isAuthenticated$.subscribe(isAuth => {
       this.isAuthenticated = isAuth;
       if (isAuth) {
@@ -38,12 +49,20 @@ export class AppComponent implements OnInit {
     }
   }
 
-  logout(): void {
-    // Clear S3 and Cognito caches before logging out
-    this.s3Service.clearCaches();
+  async logout(): Promise<void> {
+    // Clear photo store caches (S3 URLs, Cognito credentials...) and persisted listings/metadata before logging out
+    this.photoStore.clearCaches();
+    await this.persistentCache.clear();
     this.authService.logout();
   }
 
+  /**
+   * Requests per operation, e.g. "ListObjectsV2: 3, GetObject: 40"
+   */
+  getOperationSummary(stats: RequestStats): string {
+    return Object.entries(stats.byOperation).map(([operation, count]) => `${operation}: ${count}`).join(', ');
+  }
+
   getAvatarUrl(): string {
     return this.gravatarService.getAvatarUrl(this.userProfile?.email);
   }
@@ -2,11 +2,17 @@ import { Routes } from '@angular/router';
 import { HomeComponent } from './components/home/home.component';
 import { PhotosComponent } from './pages/photos/photos.component';
 import { SigninComponent } from './pages/signin/signin.component';
+import { StatsComponent } from './pages/stats/stats.component';
+import { HealthComponent } from './pages/health/health.component';
+import { AlertsComponent } from './pages/alerts/alerts.component';
 import { authGuard } from './guards/auth.guard';
 
 export const routes: Routes = [
   { path: 'signin', component: SigninComponent },
   { path: '', component: PhotosComponent, canActivate: [authGuard] },
+  { path: 'stats', component: StatsComponent, canActivate: [authGuard] },
+  { path: 'health', component: HealthComponent, canActivate: [authGuard] },
+  { path: 'alerts', component: AlertsComponent, canActivate: [authGuard] },
   { path: 'test', component: HomeComponent, canActivate: [authGuard] },
   { path: '**', redirectTo: '' }
 ];
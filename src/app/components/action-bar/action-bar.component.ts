@@ -1,20 +1,27 @@
-import { Component, EventEmitter, Output } from '@angular/core';
+import { Component, EventEmitter, Inject, Output } from '@angular/core';
 import { UserProfileService } from '../../services/user-profile.service';
-import { AsyncPipe, NgIf } from '@angular/common';
+import { AsyncPipe, NgFor, NgIf } from '@angular/common';
+import { RouterLink, RouterLinkActive } from '@angular/router';
 import { AuthService } from '../../services/auth.service';
 import { ActionConfigService } from '../../services/action-config.service';
 import { ToggleButtonComponent } from '../toggle-button/toggle-button.component';
+import { ALL_DEVICES, DeviceService } from '../../services/device.service';
+import { PHOTO_STORE, PhotoStore } from '../../services/photo-store';
+import { PersistentCacheService } from '../../services/persistent-cache.service';
+import { AlertService } from '../../services/alert.service';
 
 @Component({
   selector: 'app-action-bar',
   standalone: true,
-  imports: [AsyncPipe, NgIf, ToggleButtonComponent],
+  imports: [AsyncPipe, NgFor, NgIf, RouterLink, RouterLinkActive, ToggleButtonComponent],
   templateUrl: './action-bar.component.html',
   styleUrl: './action-bar.component.css'
 })
 export class ActionBarComponent {
   @Output() refresh = new EventEmitter<void>();
 
+  readonly ALL_DEVICES = ALL_DEVICES;
+
   public get isAuthenticated$() {
     return this.authService.isAuthenticated$;
   }
@@ -26,10 +33,17 @@ export class ActionBarComponent {
   constructor(
     public userProfile:UserProfileService,
     public config: ActionConfigService,
-    private authService: AuthService) {
+    public deviceService: DeviceService,
+    public alertService: AlertService,
+    private authService: AuthService,
+    @Inject(PHOTO_STORE) private photoStore: PhotoStore,
+    private persistentCache: PersistentCacheService) {
   }
 
-  public logout() {
+  public async logout() {
+    // Clear photo store caches (S3 URLs, Cognito credentials...) and persisted listings/metadata
+    this.photoStore.clearCaches();
+    await this.persistentCache.clear();
     this.authService.logout();
   }
 
@@ -53,10 +67,20 @@ export class ActionBarComponent {
     this.config.resetRotation();
   }
 
+  onDeviceChange(event: Event) {
+    const select = event.target as HTMLSelectElement;
+    this.deviceService.selectedDeviceId$.next(select.value);
+  }
+
   onBrightnessChange(event: Event) {
     const input = event.target as HTMLInputElement;
     const level = parseInt(input.value, 10);
     this.config.brightnessLevel$.next(level);
+    this.config.autoExposure$.next(false); // A manual level overrides auto exposure
+  }
+
+  toggleAutoExposure() {
+    this.config.autoExposure$.next(!this.config.autoExposure$.getValue());
   }
 }
 
@@ -0,0 +1,24 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+@Component({
+  selector: 'app-confirm-dialog',
+  standalone: true,
+  imports: [],
+  templateUrl: './confirm-dialog.component.html',
+  styleUrl: './confirm-dialog.component.css'
+})
+export class ConfirmDialogComponent {
+  @Input() title = 'Confirmare';
+  @Input() message = '';
+  @Input() confirmLabel = 'Confirmă';
+  @Input() danger = false; // Red confirm button for destructive actions
+  @Output() confirmed = new EventEmitter<void>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  onBackdropClick(event: MouseEvent) {
+    // Clicks inside the dialog bubble up here too
+    if (event.target === event.currentTarget) {
+      this.cancelled.emit();
+    }
+  }
+}
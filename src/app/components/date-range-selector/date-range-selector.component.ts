@@ -1,4 +1,4 @@
-import { Component, Output, EventEmitter } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 
@@ -14,15 +14,26 @@ export interface DateRange {
   templateUrl: './date-range-selector.component.html',
   styleUrl: './date-range-selector.component.css'
 })
-export class DateRangeSelectorComponent {
-  @Output() dateRangeChanged = new EventEmitter<DateRange>();
+export class DateRangeSelectorComponent implements OnInit {
+  @Input() startDate?: Date; // Currently applied range, shown in the inputs
+  @Input() endDate?: Date;
+  @Output() dateRangeChanged = new EventEmitter<DateRange | null>(); // null = no range (all photos)
 
+  // Empty until a range is picked: photos are paged back from today with no limit
   startDateStr: string = '';
   endDateStr: string = '';
 
-  constructor() {
-    // Initialize with last 24 hours
-    this.setLast24Hours();
+  ngOnInit() {
+    if (this.startDate && this.endDate) {
+      this.startDateStr = this.formatDateForInput(this.startDate);
+      this.endDateStr = this.formatDateForInput(this.endDate);
+    }
+  }
+
+  setAll() {
+    this.startDateStr = '';
+    this.endDateStr = '';
+    this.dateRangeChanged.emit(null);
   }
 
   setLast24Hours() {
@@ -0,0 +1,96 @@
+import { AfterViewInit, Component, ElementRef, Input, OnChanges, OnDestroy, ViewChild } from '@angular/core';
+import { Chart, registerables } from 'chart.js';
+import { DutyCycleBin } from '../../services/blanket-energy';
+
+Chart.register(...registerables);
+
+/**
+ * Bar chart of the blanket's duty cycle per temperature bin
+ */
+@Component({
+  selector: 'app-duty-cycle-chart',
+  standalone: true,
+  imports: [],
+  templateUrl: './duty-cycle-chart.component.html',
+  styleUrl: './duty-cycle-chart.component.css'
+})
+export class DutyCycleChartComponent implements OnChanges, AfterViewInit, OnDestroy {
+  @Input() bins: DutyCycleBin[] = [];
+  @Input() binSize = 2;
+  @ViewChild('chartCanvas', { static: false }) chartCanvas!: ElementRef<HTMLCanvasElement>;
+
+  private chart: Chart | null = null;
+
+  ngAfterViewInit() {
+    const ctx = this.chartCanvas.nativeElement.getContext('2d');
+    if (!ctx) return;
+
+    this.chart = new Chart(ctx, {
+      type: 'bar',
+      data: {
+        labels: [],
+        datasets: [{
+          label: 'Pătură pornită (%)',
+          data: [],
+          backgroundColor: 'rgba(255, 206, 86, 0.6)',
+          borderColor: 'rgb(255, 206, 86)',
+          borderWidth: 1
+        }]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          title: {
+            display: true,
+            text: 'Ciclul de funcționare al păturii după temperatură'
+          },
+          legend: {
+            display: false
+          },
+          tooltip: {
+            callbacks: {
+              label: (item) => {
+                const bin = this.bins[item.dataIndex];
+                return `${Math.round(bin.dutyCycle * 100)}% din ${Math.round(bin.knownSeconds / 3600)}h`;
+              }
+            }
+          }
+        },
+        scales: {
+          x: {
+            title: {
+              display: true,
+              text: 'Temperatură așteptată, altfel măsurată (°C)'
+            }
+          },
+          y: {
+            min: 0,
+            max: 100,
+            title: {
+              display: true,
+              text: 'Pătură pornită (%)'
+            }
+          }
+        }
+      }
+    });
+    this.updateChart();
+  }
+
+  ngOnChanges() {
+    this.updateChart();
+  }
+
+  private updateChart() {
+    if (!this.chart) return;
+
+    this.chart.data.labels = this.bins.map(bin => `${bin.temperature}…${bin.temperature + this.binSize}`);
+    this.chart.data.datasets[0].data = this.bins.map(bin => Math.round(bin.dutyCycle * 1000) / 10);
+    this.chart.update('none');
+  }
+
+  ngOnDestroy() {
+    this.chart?.destroy();
+  }
+}
@@ -0,0 +1,131 @@
+import { AfterViewInit, Component, ElementRef, Input, OnChanges, OnDestroy, ViewChild } from '@angular/core';
+import { Chart, Plugin, registerables } from 'chart.js';
+import 'chartjs-adapter-date-fns';
+import { MAX_READING_SECONDS } from '../../services/sensor-series';
+
+Chart.register(...registerables);
+
+export interface HealthChartSeries {
+  label: string;
+  color: string; // rgb(...) of the line
+  data: { x: number, y: number | null }[]; // Oldest first
+}
+
+/**
+ * Time series of a camera's health readings, reboots drawn as vertical lines
+ */
+@Component({
+  selector: 'app-health-chart',
+  standalone: true,
+  imports: [],
+  templateUrl: './health-chart.component.html',
+  styleUrl: './health-chart.component.css'
+})
+export class HealthChartComponent implements OnChanges, AfterViewInit, OnDestroy {
+  @Input() title = '';
+  @Input() yLabel = '';
+  @Input() series: HealthChartSeries[] = [];
+  @Input() markers: Date[] = []; // Reboots
+  @Input() start?: Date;
+  @Input() end?: Date;
+  @ViewChild('chartCanvas', { static: false }) chartCanvas!: ElementRef<HTMLCanvasElement>;
+
+  private chart: Chart<'line', { x: number, y: number | null }[]> | null = null;
+
+  // Vertical line at each reboot, under the data
+  private readonly markerPlugin: Plugin<'line'> = {
+    id: 'rebootMarkers',
+    beforeDatasetsDraw: chart => {
+      const { ctx, chartArea, scales } = chart;
+      ctx.save();
+      ctx.strokeStyle = 'rgba(220, 53, 69, 0.7)';
+      ctx.setLineDash([4, 3]);
+      for (const marker of this.markers) {
+        const x = scales['x'].getPixelForValue(marker.getTime());
+        if (x < chartArea.left || x > chartArea.right) continue;
+        ctx.beginPath();
+        ctx.moveTo(x, chartArea.top);
+        ctx.lineTo(x, chartArea.bottom);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+  };
+
+  ngAfterViewInit() {
+    const ctx = this.chartCanvas.nativeElement.getContext('2d');
+    if (!ctx) return;
+
+    this.chart = new Chart(ctx, {
+      type: 'line',
+      data: { datasets: [] },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        interaction: {
+          mode: 'nearest',
+          axis: 'x',
+          intersect: false
+        },
+        plugins: {
+          title: {
+            display: true,
+            text: this.title
+          },
+          tooltip: {
+            callbacks: {
+              title: items => {
+                const x = items[0]?.parsed.x;
+                return x !== null && x !== undefined ? new Date(x).toLocaleString('ro-RO') : '';
+              }
+            }
+          }
+        },
+        scales: {
+          x: {
+            type: 'time',
+            ticks: {
+              maxRotation: 0,
+              autoSkip: true,
+              maxTicksLimit: 8
+            }
+          },
+          y: {
+            title: {
+              display: true,
+              text: this.yLabel
+            }
+          }
+        }
+      },
+      plugins: [this.markerPlugin]
+    });
+    this.updateChart();
+  }
+
+  ngOnChanges() {
+    this.updateChart();
+  }
+
+  private updateChart() {
+    if (!this.chart) return;
+
+    this.chart.data.datasets = this.series.map(series => ({
+      label: series.label,
+      data: series.data,
+      borderColor: series.color,
+      backgroundColor: series.color,
+      pointRadius: 0,
+      borderWidth: 1.5,
+      spanGaps: MAX_READING_SECONDS * 1000 // Break the line where the camera was offline
+    }));
+    this.chart.options.scales!['x']!.min = this.start?.getTime();
+    this.chart.options.scales!['x']!.max = this.end?.getTime();
+    this.chart.update('none');
+  }
+
+  ngOnDestroy() {
+    this.chart?.destroy();
+  }
+}
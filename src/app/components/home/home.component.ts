@@ -1,6 +1,6 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, Inject, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { S3Service } from '../../services/s3.service';
+import { PHOTO_STORE, PhotoStore } from '../../services/photo-store';
 
 @Component({
   selector: 'app-home',
@@ -15,7 +15,7 @@ export class HomeComponent implements OnInit {
   objectCount: number = 0;
   sampleObjects: string[] = [];
 
-  constructor(private s3Service: S3Service) {}
+  constructor(@Inject(PHOTO_STORE) private photoStore: PhotoStore) {}
 
   async ngOnInit() {
     await this.testS3Connection();
@@ -24,23 +24,17 @@ export class HomeComponent implements OnInit {
   async testS3Connection() {
     try {
       this.connectionStatus = 'testing';
-      const response = await this.s3Service.listObjects('', 10);
+      const page = await this.photoStore.list('', 10);
 
-      if (response.Contents) {
-        this.objectCount = response.KeyCount || 0;
-        this.sampleObjects = response.Contents
-          .slice(0, 5)
-          .map(obj => obj.Key || '')
-          .filter(key => key !== '');
-        this.connectionStatus = 'success';
-      } else {
-        this.connectionStatus = 'success';
-        this.objectCount = 0;
-      }
+      this.objectCount = page.objects.length;
+      this.sampleObjects = page.objects
+        .slice(0, 5)
+        .map(obj => obj.key);
+      this.connectionStatus = 'success';
     } catch (error: any) {
       this.connectionStatus = 'error';
       this.errorMessage = error.message || 'Unknown error occurred';
-      console.error('S3 Connection Error:', error);
+      console.error('Photo Store Connection Error:', error);
     }
   }
 
@@ -0,0 +1,27 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+@Component({
+  selector: 'app-jump-to-date',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './jump-to-date.component.html',
+  styleUrl: './jump-to-date.component.css'
+})
+export class JumpToDateComponent {
+  @Input() disabled = false; // While a jump is loading
+  @Output() jump = new EventEmitter<Date>(); // Local date and time to go to
+
+  dateTimeStr = '';
+
+  onJump() {
+    if (!this.dateTimeStr) return;
+
+    // datetime-local value: YYYY-MM-DDTHH:mm in local time
+    const [datePart, timePart] = this.dateTimeStr.split('T');
+    const [year, month, day] = datePart.split('-').map(Number);
+    const [hours, minutes] = (timePart ?? '12:00').split(':').map(Number);
+
+    this.jump.emit(new Date(year, month - 1, day, hours, minutes, 0, 0));
+  }
+}
@@ -0,0 +1,100 @@
+import { Component, Input, OnChanges, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Photo } from '../../services/photo.service';
+import { AnnotationService, PhotoAnnotation } from '../../services/annotation.service';
+
+/**
+ * Favorite star, tags and note of the viewed photo, saved to the day's annotations file
+ */
+@Component({
+  selector: 'app-photo-annotations',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './photo-annotations.component.html',
+  styleUrl: './photo-annotations.component.css'
+})
+export class PhotoAnnotationsComponent implements OnChanges {
+  @Input() photo: Photo | null = null;
+
+  annotation: PhotoAnnotation = {};
+  newTag = '';
+  noteText = '';
+  saving = false;
+  error: string | null = null;
+
+  constructor(public annotationService: AnnotationService) { }
+
+  async ngOnChanges(changes: SimpleChanges) {
+    if (changes['photo']) {
+      await this.loadAnnotation();
+    }
+  }
+
+  async loadAnnotation() {
+    const photo = this.photo;
+    this.error = null;
+    this.newTag = '';
+    this.annotation = photo?.annotation ?? {};
+    this.noteText = this.annotation.note ?? '';
+
+    if (!photo || photo.annotation) return;
+
+    try {
+      const annotation = await this.annotationService.getAnnotation(photo);
+      if (photo === this.photo) {
+        photo.annotation = annotation;
+        this.annotation = annotation;
+        this.noteText = annotation.note ?? '';
+      }
+    } catch (error) {
+      console.error('Error loading annotation:', error);
+    }
+  }
+
+  toggleFavorite() {
+    this.save({ ...this.annotation, favorite: !this.annotation.favorite });
+  }
+
+  addTag() {
+    if (!this.newTag.trim()) return;
+    this.save({ ...this.annotation, tags: [...(this.annotation.tags ?? []), this.newTag] });
+    this.newTag = '';
+  }
+
+  removeTag(tag: string) {
+    this.save({ ...this.annotation, tags: this.annotation.tags?.filter(existing => existing !== tag) });
+  }
+
+  saveNote() {
+    if (this.noteText.trim() === (this.annotation.note ?? '')) return;
+    this.save({ ...this.annotation, note: this.noteText.trim() });
+  }
+
+  private async save(annotation: PhotoAnnotation) {
+    const photo = this.photo;
+    if (!photo || !this.annotationService.canEdit) return;
+
+    try {
+      this.saving = true;
+      this.error = null;
+
+      // Shown right away, the list badges follow the photo's annotation
+      this.annotation = annotation;
+      const saved = await this.annotationService.setAnnotation(photo, annotation);
+
+      photo.annotation = saved;
+      if (photo === this.photo) {
+        this.annotation = saved;
+      }
+    } catch (error) {
+      console.error('Error saving annotation:', error);
+      this.error = 'Nu s-a putut salva adnotarea';
+      if (photo === this.photo) {
+        this.annotation = photo.annotation ?? {};
+      }
+    } finally {
+      this.saving = false;
+    }
+  }
+}
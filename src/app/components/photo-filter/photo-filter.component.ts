@@ -0,0 +1,54 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { PhotoFilter } from '../../services/photo.service';
+
+@Component({
+  selector: 'app-photo-filter',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './photo-filter.component.html',
+  styleUrl: './photo-filter.component.css'
+})
+export class PhotoFilterComponent implements OnChanges {
+  @Input() filter: PhotoFilter = {};
+  @Input() knownTags: string[] = []; // Suggestions for the tag input
+  @Output() filterChanged = new EventEmitter<PhotoFilter>();
+
+  tagStr = '';
+  minQualityScore: number | null = null;
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['filter']) {
+      this.tagStr = this.filter.tag ?? '';
+      this.minQualityScore = this.filter.minQualityScore ?? null;
+    }
+  }
+
+  toggleFavorites() {
+    this.filterChanged.emit({ ...this.filter, favoritesOnly: !this.filter.favoritesOnly });
+  }
+
+  toggle(option: 'hideDark' | 'hideBlurry' | 'bestPerHour' | 'changedOnly') {
+    this.filterChanged.emit({ ...this.filter, [option]: !this.filter[option] });
+  }
+
+  applyMinQualityScore() {
+    const score = this.minQualityScore ? Math.min(100, Math.max(0, this.minQualityScore)) : undefined;
+    if (score === this.filter.minQualityScore) return;
+
+    this.filterChanged.emit({ ...this.filter, minQualityScore: score });
+  }
+
+  applyTag() {
+    const tag = this.tagStr.trim();
+    if (tag === (this.filter.tag ?? '')) return;
+
+    this.filterChanged.emit({ ...this.filter, tag: tag || undefined });
+  }
+
+  clearTag() {
+    this.tagStr = '';
+    this.applyTag();
+  }
+}
@@ -1,31 +1,28 @@
 import { Component, Input, OnChanges, OnDestroy, SimpleChanges, ViewChild, ElementRef, AfterViewInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
 import { Chart, ChartConfiguration, registerables } from 'chart.js';
 import 'chartjs-adapter-date-fns';
-import { Photo } from '../../services/photo.service';
-import { MetadataService, PhotoMetadata } from '../../services/metadata.service';
+import { Photo, PhotoService } from '../../services/photo.service';
+import { MetadataService } from '../../services/metadata.service';
+import { VisitService } from '../../services/visit.service';
+import {
+  SensorDataPoint, SensorExportFormat, SensorTimeZone, formatSensorSeries, markReboots, toSensorDataPoint, toSensorSeries
+} from '../../services/sensor-series';
 
 Chart.register(...registerables);
 
-interface GraphDataPoint {
-  timestamp: Date;
-  temperature?: number | null;
-  humidity?: number | null;
-  blanketOn?: boolean;
-  catPresent?: boolean;
-  uptime?: number;
-  isReboot?: boolean;
-}
-
 @Component({
   selector: 'app-photo-graphs',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FormsModule],
   templateUrl: './photo-graphs.component.html',
   styleUrl: './photo-graphs.component.css'
 })
 export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy {
   @Input() photos: Photo[] = [];
+  @Input() startDate?: Date; // Selected date range, used as chart time window when set
+  @Input() endDate?: Date;
   @ViewChild('chartCanvas', { static: false }) chartCanvas!: ElementRef<HTMLCanvasElement>;
 
   private chart: Chart | null = null;
@@ -33,15 +30,20 @@ export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy
   private readonly MAX_RETRIES = 10;
   private resizeObserver: ResizeObserver | null = null;
   private lastPhotoCount = 0;
-  private allDataPoints: GraphDataPoint[] = [];
+  private allDataPoints: SensorDataPoint[] = [];
   loading = false;
   loadingProgress = 0;
   loadingTotal = 0;
   error: string | null = null;
   warning: string | null = null;
   warningDismissed = false;
+  exportTimeZone: SensorTimeZone = 'utc';
+  exporting = false;
+  exportProgress = 0;
+  exportTotal = 0; // 0 while the range's photos are being listed
+  readonly exportFormats: SensorExportFormat[] = ['csv', 'json', 'ndjson'];
 
-  constructor(private metadataService: MetadataService) {}
+  constructor(private metadataService: MetadataService, private photoService: PhotoService, private visitService: VisitService) {}
 
   dismissWarning() {
     this.warningDismissed = true;
@@ -137,6 +139,14 @@ export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy
   }
 
   private estimateTimeRange(): { min: Date; max: Date } | null {
+    // Show the whole selected window, not just the photos loaded so far
+    if (this.startDate && this.endDate) {
+      return {
+        min: this.startDate,
+        max: this.endDate
+      };
+    }
+
     if (this.photos.length === 0) {
       return null;
     }
@@ -160,7 +170,7 @@ export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy
 
     this.loading = true;
     const newPhotos = this.photos.slice(0, newPhotoCount);
-    const newDataPoints: GraphDataPoint[] = [];
+    const newDataPoints: SensorDataPoint[] = [];
     let failedCount = 0;
 
     try {
@@ -169,37 +179,13 @@ export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy
         newPhotos.map(photo => this.metadataService.getMetadata(photo.key))
       );
 
-      // Get the last uptime from existing data for reboot detection
-      let previousUptime: number | undefined;
-      if (this.allDataPoints.length > 0) {
-        previousUptime = this.allDataPoints[this.allDataPoints.length - 1].uptime;
-      }
-
       // Process results
       for (let i = 0; i < results.length; i++) {
         const photo = newPhotos[i];
         const result = results[i];
 
         if (result.status === 'fulfilled' && result.value) {
-          const metadata = result.value;
-          const catPresent = metadata.seconds_since_last_motion < 300;
-
-          const point: GraphDataPoint = {
-            timestamp: photo.timestamp,
-            temperature: metadata.temperature_celsius,
-            humidity: metadata.humidity_percent,
-            blanketOn: metadata.blanket_on,
-            catPresent: catPresent,
-            uptime: metadata.uptime_seconds
-          };
-
-          // Detect reboot
-          if (previousUptime !== undefined && metadata.uptime_seconds < previousUptime) {
-            point.isReboot = true;
-          }
-          previousUptime = metadata.uptime_seconds;
-
-          newDataPoints.push(point);
+          newDataPoints.push(toSensorDataPoint(photo, result.value));
         } else {
           failedCount++;
         }
@@ -208,8 +194,9 @@ export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy
       // Prepend new data points to existing data
       this.allDataPoints = [...newDataPoints, ...this.allDataPoints];
 
-      // Sort all data by timestamp
+      // Sort all data by timestamp, then detect reboots (uptime decreased)
       this.allDataPoints.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      markReboots(this.allDataPoints);
 
       // Update chart with all data
       this.updateChartData(this.allDataPoints);
@@ -236,9 +223,8 @@ export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy
     this.warningDismissed = false;
 
     const BATCH_SIZE = 5;
-    const dataPoints: GraphDataPoint[] = [];
+    const dataPoints: SensorDataPoint[] = [];
     let failedCount = 0;
-    let previousUptime: number | undefined;
 
     try {
       // Process photos in batches of 5
@@ -258,27 +244,7 @@ export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy
           this.loadingProgress++;
 
           if (result.status === 'fulfilled' && result.value) {
-            const metadata = result.value;
-
-            // Cat is considered present if motion was detected within last 5 minutes (300 seconds)
-            const catPresent = metadata.seconds_since_last_motion < 300;
-
-            const point: GraphDataPoint = {
-              timestamp: photo.timestamp,
-              temperature: metadata.temperature_celsius,
-              humidity: metadata.humidity_percent,
-              blanketOn: metadata.blanket_on,
-              catPresent: catPresent,
-              uptime: metadata.uptime_seconds
-            };
-
-            // Detect reboot (uptime decreased)
-            if (previousUptime !== undefined && metadata.uptime_seconds < previousUptime) {
-              point.isReboot = true;
-            }
-            previousUptime = metadata.uptime_seconds;
-
-            dataPoints.push(point);
+            dataPoints.push(toSensorDataPoint(photo, result.value));
           } else {
             failedCount++;
           }
@@ -293,6 +259,7 @@ export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy
       }
 
       // Store all data points for future incremental updates
+      markReboots(dataPoints);
       this.allDataPoints = dataPoints;
 
       // Final status
@@ -311,6 +278,56 @@ export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy
     }
   }
 
+  /**
+   * Download the sensor readings of the whole selected range (last 24 hours without one),
+   * loaded on their own: the chart only has the photos the list has paged in
+   */
+  async exportData(format: SensorExportFormat) {
+    if (this.exporting) return;
+
+    try {
+      this.exporting = true;
+      this.exportProgress = 0;
+      this.exportTotal = 0;
+
+      const photos = await this.photoService.getPhotos(this.startDate, this.endDate);
+      this.exportTotal = photos.length;
+      const samples = await this.visitService.getSamples(photos, done => this.exportProgress = done);
+
+      const points = toSensorSeries(samples);
+      if (points.length === 0) {
+        this.warning = 'No sensor readings in the selected range to export.';
+        this.warningDismissed = false;
+        return;
+      }
+      this.download(points, format);
+    } catch (error) {
+      console.error('Error exporting sensor data:', error);
+      this.error = 'Failed to export sensor data';
+    } finally {
+      this.exporting = false;
+    }
+  }
+
+  private download(points: SensorDataPoint[], format: SensorExportFormat) {
+    const types: Record<SensorExportFormat, string> = {
+      csv: 'text/csv',
+      json: 'application/json',
+      ndjson: 'application/x-ndjson'
+    };
+    const day = (date: Date) => date.toISOString().substring(0, 10).replace(/-/g, '');
+    const first = points[0].timestamp;
+    const last = points[points.length - 1].timestamp;
+
+    const blob = new Blob([formatSensorSeries(points, format, this.exportTimeZone)], { type: types[format] });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `cat-sensors_${day(first)}-${day(last)}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  }
+
   private createEmptyChart(timeRange: { min: Date; max: Date } | null = null) {
     if (!this.chartCanvas?.nativeElement) {
       console.warn('Chart canvas not available');
@@ -494,7 +511,7 @@ export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy
     this.chart = new Chart(ctx, config);
   }
 
-  private updateChartData(dataPoints: GraphDataPoint[]) {
+  private updateChartData(dataPoints: SensorDataPoint[]) {
     if (!this.chart) {
       console.warn('Chart not initialized, cannot update data');
       return;
@@ -526,11 +543,11 @@ export class PhotoGraphsComponent implements OnChanges, AfterViewInit, OnDestroy
     this.chart.update('none');
   }
 
-  private fillDataGaps(dataPoints: GraphDataPoint[]): GraphDataPoint[] {
+  private fillDataGaps(dataPoints: SensorDataPoint[]): SensorDataPoint[] {
     if (dataPoints.length < 2) return dataPoints;
 
     const GAP_THRESHOLD_MS = 60 * 60 * 1000; // 1 hour in milliseconds
-    const result: GraphDataPoint[] = [];
+    const result: SensorDataPoint[] = [];
 
     for (let i = 0; i < dataPoints.length; i++) {
       result.push(dataPoints[i]);
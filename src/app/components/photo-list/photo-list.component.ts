@@ -1,35 +1,42 @@
-import { Component, Input, Output, EventEmitter, OnInit, OnDestroy, ElementRef, ViewChild } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnInit, OnDestroy, OnChanges, SimpleChanges, ElementRef, ViewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Photo } from '../../services/photo.service';
 import { ActionConfigService } from '../../services/action-config.service';
+import { CaptureWatchdogService } from '../../services/capture-watchdog.service';
+import { ExposureService } from '../../services/exposure.service';
+import { MissedCapture } from '../../services/capture-schedule';
+import { PhotoSrcDirective } from '../../directives/photo-src.directive';
 import { Subject, takeUntil, fromEvent, debounceTime, Observable } from 'rxjs';
 
 @Component({
   selector: 'app-photo-list',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, PhotoSrcDirective],
   templateUrl: './photo-list.component.html',
   styleUrl: './photo-list.component.css'
 })
-export class PhotoListComponent implements OnInit, OnDestroy {
+export class PhotoListComponent implements OnInit, OnChanges, OnDestroy {
   @Input() photos: Photo[] = [];
   @Input() selectedPhoto: Photo | null = null;
   @Input() loadMore$: Observable<boolean> | null = null;
+  @Input() hasNewer = false; // The list starts after a jump: newer photos load when scrolling up
+  @Input() loadingNewer = false;
+  @Input() searchedBackTo: Date | null = null; // The search stopped at this day with older days left
+  @Input() checkedKeys: Set<string> | null = null; // Bulk selection mode: clicks check photos instead of opening them
+  @Input() showMissedCaptures = true; // Off while filtering: gaps between matching photos aren't missed captures
   @Output() photoSelected = new EventEmitter<Photo>();
   @Output() loadMore = new EventEmitter<void>();
+  @Output() loadNewer = new EventEmitter<void>();
+  @Output() photoChecked = new EventEmitter<Photo>();
   @ViewChild('scrollContainer', { static: false }) scrollContainer?: ElementRef;
 
   private destroy$ = new Subject<void>();
-  private rotation: number = 0;
 
   public isLoadingMore = false;
+  public missedCaptures = new Map<string, MissedCapture<Photo>>(); // By the key of the photo after the gap
+  private missedGeneration = 0; // Results of older lookups are dropped
 
-  constructor(public config:ActionConfigService) {
-    config.rotation$.pipe(
-      takeUntil(this.destroy$)
-    ).subscribe(rotation => {
-      this.rotation = rotation
-    });
+  constructor(public config:ActionConfigService, private watchdog: CaptureWatchdogService, private exposure: ExposureService) {
   }
 
   ngOnInit() {
@@ -51,6 +58,53 @@ export class PhotoListComponent implements OnInit, OnDestroy {
     );
   }
 
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['photos'] || changes['showMissedCaptures']) {
+      this.updateMissedCaptures();
+    }
+
+    const element = this.scrollContainer?.nativeElement as HTMLElement | undefined;
+    if (!element) return;
+
+    const previous: Photo[] = changes['photos']?.previousValue ?? [];
+    if (changes['photos'] && previous.length > 0 && this.photos[0]?.key !== previous[0].key &&
+        this.photos.some(photo => photo.key === previous[0].key)) {
+      // Photos were added above: keep the visible ones in place
+      const scrollHeight = element.scrollHeight;
+      const scrollTop = element.scrollTop;
+      setTimeout(() => element.scrollTop = scrollTop + element.scrollHeight - scrollHeight);
+    } else if (changes['selectedPhoto'] && this.selectedPhoto) {
+      // Bring the selected photo into view (e.g. after a jump)
+      const key = this.selectedPhoto.key;
+      setTimeout(() => element.querySelector(`[data-key="${CSS.escape(key)}"]`)?.scrollIntoView({ block: 'nearest' }));
+    }
+  }
+
+  /**
+   * Mark the photos arriving after scheduled photos went missing
+   */
+  private async updateMissedCaptures() {
+    const generation = ++this.missedGeneration;
+    if (!this.showMissedCaptures) {
+      this.missedCaptures = new Map();
+      return;
+    }
+
+    try {
+      const missed = await this.watchdog.findMissedCaptures(this.photos);
+      if (generation === this.missedGeneration) {
+        this.missedCaptures = new Map(missed.map(capture => [capture.nextPhoto!.key, capture]));
+      }
+    } catch (error) {
+      console.warn('Error finding missed captures:', error);
+    }
+  }
+
+  getMissedCaptureTitle(missed: MissedCapture<Photo>): string {
+    return `${missed.missedCount} ${missed.missedCount === 1 ? 'poză programată lipsește' : 'poze programate lipsesc'}` +
+      ` (de la ${this.formatTime(missed.expectedAt)})`;
+  }
+
   ngOnDestroy() {
     this.destroy$.next();
     this.destroy$.complete();
@@ -67,21 +121,35 @@ export class PhotoListComponent implements OnInit, OnDestroy {
     if (scrollHeight - scrollPosition < 500) {
       this.loadMore.emit();
     }
+
+    // Load newer photos when user is within 500px of top (after a jump)
+    if (this.hasNewer && element.scrollTop < 500) {
+      this.loadNewer.emit();
+    }
   }
 
-  getRotationStyle(): string {
-    return `rotate(${this.rotation}deg)`;
+  getRotationStyle(photo: Photo): string {
+    // Rotation is remembered per camera
+    return `rotate(${this.config.getRotation(photo.deviceId)}deg)`;
   }
 
-  getBrightnessFilter(level: number | null): string {
-    // Level 1 = normal (1.0), Level 5 = very bright (3.0)
-    const safeLevel = level ?? 3; // Default to 3 if null
-    const brightness = 1.0 + (safeLevel - 1) * 0.5;
-    return `brightness(${brightness})`;
+  /**
+   * Auto exposure from the quality metrics, else the camera's manual level
+   */
+  getBrightnessFilter(photo: Photo): string {
+    return this.exposure.getFilter(photo);
   }
 
   onPhotoClick(photo: Photo) {
-    this.photoSelected.emit(photo);
+    if (this.checkedKeys) {
+      this.photoChecked.emit(photo);
+    } else {
+      this.photoSelected.emit(photo);
+    }
+  }
+
+  isChecked(photo: Photo): boolean {
+    return !!this.checkedKeys?.has(photo.key);
   }
 
   isSelected(photo: Photo): boolean {
@@ -108,15 +176,18 @@ export class PhotoListComponent implements OnInit, OnDestroy {
   }
 
   onImageLoad(event: Event) {
-    const img = event.target as HTMLImageElement;
-    img.classList.add('loaded');
+    // <img> or <video> (motion clip) thumbnail
+    const element = event.target as HTMLElement;
+    element.classList.add('loaded');
   }
 
   onImageError(event: Event) {
-    const img = event.target as HTMLImageElement;
-    console.error('Failed to load image:', img.src);
+    const element = event.target as HTMLImageElement | HTMLVideoElement;
+    console.error('Failed to load image:', element.src);
     // Set a placeholder or show error
-    img.style.backgroundColor = '#f8f9fa';
-    img.alt = 'Failed to load';
+    element.style.backgroundColor = '#f8f9fa';
+    if (element instanceof HTMLImageElement) {
+      element.alt = 'Failed to load';
+    }
   }
 }
@@ -1,34 +1,50 @@
-import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges } from '@angular/core';
+import {
+  Component, ElementRef, EventEmitter, HostListener, Input, OnChanges, OnDestroy, Output, SimpleChanges, ViewChild
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Photo } from '../../services/photo.service';
+import { Photo, PhotoRemovalMode } from '../../services/photo.service';
 import { MetadataService, PhotoMetadata } from '../../services/metadata.service';
 import { ActionConfigService } from '../../services/action-config.service';
-import { Subject, takeUntil } from 'rxjs';
+import { DeviceService } from '../../services/device.service';
+import { ExposureService } from '../../services/exposure.service';
+import { ChangeDetectionService } from '../../services/change-detection.service';
+import { FrameDifference, getHeatmapPixels, isSignificantChange } from '../../services/frame-difference';
+import { PhotoSrcDirective } from '../../directives/photo-src.directive';
+import { PhotoAnnotationsComponent } from '../photo-annotations/photo-annotations.component';
+import { Subject } from 'rxjs';
 
 @Component({
   selector: 'app-photo-viewer',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, PhotoSrcDirective, PhotoAnnotationsComponent],
   templateUrl: './photo-viewer.component.html',
   styleUrl: './photo-viewer.component.css'
 })
 export class PhotoViewerComponent implements OnChanges, OnDestroy {
   @Input() photo: Photo | null = null;
+  @Input() previousPhoto: Photo | null = null; // Camera's previous photo in the list, compared when showing changes
   @Output() prevPhoto = new EventEmitter<void>();
   @Output() nextPhoto = new EventEmitter<void>();
-  rotation: number = 0; // Rotation in degrees (0, 90, 180, 270, -90, -180, -270)
+  @Input() canRemove = false; // Store is writable
+  @Output() removePhoto = new EventEmitter<PhotoRemovalMode>();
   metadata: PhotoMetadata | null = null;
   metadataLoading = false;
+  showChanges = false;
+  changesLoading = false;
+  changeScore: number | null = null; // null: no previous photo to compare with
+  heatmapUrl: string | null = null;
+  imageSize = { width: 0, height: 0 }; // Shown size of the photo, the heatmap is laid over it
 
+  @ViewChild('mainPhoto') mainPhoto?: ElementRef<HTMLImageElement>;
+
+  private changesGeneration = 0; // Ignores comparisons finished after the photo changed
   private destroy$ = new Subject<void>();
   private touchStartX: number = 0;
   private touchStartY: number = 0;
   private readonly swipeThreshold = 50; // Minimum pixels to trigger swipe
 
-  constructor(private metadataService: MetadataService, public config:ActionConfigService) {
-    config.rotation$.pipe(
-      takeUntil(this.destroy$)
-    ).subscribe(rotation => this.rotation = rotation);
+  constructor(private metadataService: MetadataService, public config:ActionConfigService, public deviceService: DeviceService,
+              private exposure: ExposureService, private changeDetection: ChangeDetectionService) {
   }
 
   ngOnDestroy(): void {
@@ -45,11 +61,66 @@ export class PhotoViewerComponent implements OnChanges, OnDestroy {
   }
 
   async ngOnChanges(changes: SimpleChanges) {
+    if (changes['photo'] || changes['previousPhoto']) {
+      this.updateChanges();
+    }
     if (changes['photo'] && this.photo) {
       await this.loadMetadata();
     }
   }
 
+  toggleChanges() {
+    this.showChanges = !this.showChanges;
+    this.updateChanges();
+  }
+
+  isSignificantChange(score: number): boolean {
+    return isSignificantChange(score);
+  }
+
+  @HostListener('window:resize')
+  measureImage() {
+    const image = this.mainPhoto?.nativeElement;
+    if (image) {
+      this.imageSize = { width: image.clientWidth, height: image.clientHeight };
+    }
+  }
+
+  /**
+   * Compare the photo with the camera's previous one: the one the change filter scored it against, else the list's
+   */
+  private async updateChanges() {
+    const generation = ++this.changesGeneration;
+    this.changeScore = null;
+    this.heatmapUrl = null;
+
+    const photo = this.photo;
+    const previous = photo ? this.changeDetection.getPrevious(photo) ?? this.previousPhoto : null;
+    if (!this.showChanges || photo?.mediaType !== 'image' || !previous) {
+      this.changesLoading = false;
+      return;
+    }
+
+    this.changesLoading = true;
+    const difference = await this.changeDetection.compare(photo, previous);
+    if (generation !== this.changesGeneration) return;
+
+    this.changesLoading = false;
+    this.changeScore = difference?.score ?? null;
+    this.heatmapUrl = difference ? this.renderHeatmap(difference) : null;
+  }
+
+  private renderHeatmap(difference: FrameDifference): string | null {
+    const canvas = document.createElement('canvas');
+    canvas.width = difference.width;
+    canvas.height = difference.height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    context.putImageData(new ImageData(getHeatmapPixels(difference), difference.width, difference.height), 0, 0);
+    return canvas.toDataURL();
+  }
+
   async loadMetadata() {
     if (!this.photo) {
       this.metadata = null;
@@ -67,16 +138,16 @@ export class PhotoViewerComponent implements OnChanges, OnDestroy {
     }
   }
 
-  getRotationStyle(): string {
-    return `rotate(${this.rotation}deg)`;
+  getRotationStyle(photo: Photo): string {
+    // Rotation in degrees (0, 90, 180, 270), remembered per camera
+    return `rotate(${this.config.getRotation(photo.deviceId)}deg)`;
   }
 
-  getBrightnessFilter(level: number | null): string {
-    // Level 1 = normal (1.0), Level 5 = very bright (3.0)
-    // Linear scale: 1->1.0, 2->1.5, 3->2.0, 4->2.5, 5->3.0
-    const safeLevel = level ?? 3; // Default to 3 if null
-    const brightness = 1.0 + (safeLevel - 1) * 0.5;
-    return `brightness(${brightness})`;
+  /**
+   * Auto exposure (measured from the pixels without quality metrics), else the camera's manual level
+   */
+  getBrightnessFilter(photo: Photo): string {
+    return this.exposure.getFilter(photo, true);
   }
 
   formatDateTime(date: Date): string {
@@ -0,0 +1,55 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+/**
+ * Small inline line chart of a series, null values break the line
+ */
+@Component({
+  selector: 'app-sparkline',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './sparkline.component.html',
+  styleUrl: './sparkline.component.css'
+})
+export class SparklineComponent implements OnChanges {
+  @Input() values: (number | null)[] = [];
+  @Input() width = 120;
+  @Input() height = 24;
+  @Input() label = ''; // Accessible description
+
+  segments: string[] = []; // SVG polyline points, one per unbroken run of values
+  dots: { x: number, y: number }[] = []; // Values with no neighbour to draw a line to
+
+  private readonly PADDING = 2;
+
+  ngOnChanges() {
+    this.segments = [];
+    this.dots = [];
+
+    const numbers = this.values.filter((value): value is number => value !== null);
+    if (numbers.length === 0) return;
+
+    const min = Math.min(...numbers);
+    const max = Math.max(...numbers);
+    const step = (this.width - this.PADDING * 2) / Math.max(this.values.length - 1, 1);
+    const toY = (value: number) => max === min
+      ? this.height / 2
+      : this.PADDING + (max - value) / (max - min) * (this.height - this.PADDING * 2);
+
+    let run: { x: number, y: number }[] = [];
+    const endRun = () => {
+      if (run.length === 1) this.dots.push(run[0]);
+      if (run.length > 1) this.segments.push(run.map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' '));
+      run = [];
+    };
+
+    this.values.forEach((value, i) => {
+      if (value === null) {
+        endRun();
+      } else {
+        run.push({ x: this.PADDING + i * step, y: toY(value) });
+      }
+    });
+    endRun();
+  }
+}
@@ -0,0 +1,101 @@
+import { Component, EventEmitter, Input, OnDestroy, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Photo } from '../../services/photo.service';
+import { TimelapseOptions, TimelapseService } from '../../services/timelapse.service';
+
+interface Resolution {
+  label: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Options, progress and result of a timelapse of the given photos
+ */
+@Component({
+  selector: 'app-timelapse-dialog',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './timelapse-dialog.component.html',
+  styleUrl: './timelapse-dialog.component.css'
+})
+export class TimelapseDialogComponent implements OnDestroy {
+  @Input() photos: Photo[] | null = null; // null while the photos are being listed
+  @Input() fileName = 'timelapse.webm';
+  @Output() closed = new EventEmitter<void>();
+
+  readonly fpsChoices = [5, 10, 15, 24, 30];
+  readonly resolutions: Resolution[] = [
+    { label: '640×480', width: 640, height: 480 },
+    { label: '1280×720', width: 1280, height: 720 },
+    { label: '1920×1080', width: 1920, height: 1080 }
+  ];
+
+  fps = 24;
+  resolution = this.resolutions[1];
+  overlay = true;
+  videoUrl: string | null = null;
+  error: string | null = null;
+
+  constructor(public timelapseService: TimelapseService) { }
+
+  ngOnDestroy() {
+    this.timelapseService.cancel();
+    this.revokeVideo();
+  }
+
+  get imageCount(): number {
+    return this.photos?.filter(photo => photo.mediaType === 'image').length ?? 0;
+  }
+
+  /**
+   * Video length in seconds at the chosen frame rate
+   */
+  get duration(): number {
+    return Math.ceil(this.imageCount / this.fps);
+  }
+
+  async render() {
+    if (!this.photos) return;
+
+    this.revokeVideo();
+    this.error = null;
+
+    const options: TimelapseOptions = {
+      fps: this.fps,
+      width: this.resolution.width,
+      height: this.resolution.height,
+      overlay: this.overlay
+    };
+
+    try {
+      const video = await this.timelapseService.render(this.photos, options);
+      if (video) {
+        this.videoUrl = URL.createObjectURL(video);
+      }
+    } catch (err) {
+      this.error = (err as Error).message || 'Failed to render timelapse';
+      console.error('Error rendering timelapse:', err);
+    }
+  }
+
+  close() {
+    this.timelapseService.cancel();
+    this.closed.emit();
+  }
+
+  onBackdropClick(event: MouseEvent) {
+    // Clicks inside the dialog bubble up here too, a click beside it must not lose a running render
+    if (event.target === event.currentTarget && !this.timelapseService.rendering) {
+      this.close();
+    }
+  }
+
+  private revokeVideo() {
+    if (this.videoUrl) {
+      URL.revokeObjectURL(this.videoUrl);
+      this.videoUrl = null;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Photo } from '../../services/photo.service';
+import { PhotoVisit, VisitService } from '../../services/visit.service';
+import { DeviceService } from '../../services/device.service';
+import { ActionConfigService } from '../../services/action-config.service';
+import { PhotoSrcDirective } from '../../directives/photo-src.directive';
+
+/**
+ * Cat visits among the loaded photos, selecting one shows its representative photo
+ */
+@Component({
+  selector: 'app-visits-panel',
+  standalone: true,
+  imports: [CommonModule, PhotoSrcDirective],
+  templateUrl: './visits-panel.component.html',
+  styleUrl: './visits-panel.component.css'
+})
+export class VisitsPanelComponent implements OnChanges {
+  @Input() photos: Photo[] = [];
+  @Input() selectedPhoto: Photo | null = null;
+  @Output() visitSelected = new EventEmitter<Photo>();
+
+  visits: PhotoVisit[] = [];
+  loading = false;
+  loadingProgress = 0;
+  loadingTotal = 0;
+
+  private generation = 0; // Results of older loads are dropped
+
+  constructor(
+    private visitService: VisitService,
+    public deviceService: DeviceService,
+    public config: ActionConfigService
+  ) { }
+
+  async ngOnChanges(changes: SimpleChanges) {
+    if (changes['photos']) {
+      await this.loadVisits();
+    }
+  }
+
+  async loadVisits() {
+    const generation = ++this.generation;
+
+    try {
+      this.loading = true;
+      this.loadingProgress = 0;
+      this.loadingTotal = this.photos.length;
+
+      const visits = await this.visitService.getVisits(this.photos, done => {
+        if (generation === this.generation) this.loadingProgress = done;
+      });
+
+      if (generation === this.generation) {
+        this.visits = visits;
+      }
+    } catch (error) {
+      console.error('Error loading visits:', error);
+    } finally {
+      if (generation === this.generation) {
+        this.loading = false;
+      }
+    }
+  }
+
+  isSelected(visit: PhotoVisit): boolean {
+    return !!this.selectedPhoto && visit.photos.some(photo => photo.key === this.selectedPhoto!.key);
+  }
+
+  trackByArrival(index: number, visit: PhotoVisit): string {
+    return `${visit.deviceId}:${visit.arrival.getTime()}`;
+  }
+
+  formatTime(date: Date): string {
+    return date.toLocaleString('ro-RO', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit', hour12: false });
+  }
+
+  formatDuration(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.round((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+
+  getRotationStyle(photo: Photo): string {
+    return `rotate(${this.config.getRotation(photo.deviceId)}deg)`;
+  }
+}
@@ -0,0 +1,94 @@
+import { Directive, ElementRef, EventEmitter, HostListener, Input, OnChanges, OnDestroy, Output } from '@angular/core';
+import { Photo, PhotoService } from '../services/photo.service';
+
+/**
+ * Sets the src of an <img>/<video> to the photo's URL, signed only when the element is about to be shown
+ * A failed load (typically an expired pre-signed URL) is retried once with a freshly signed URL,
+ * photoSrcError is emitted when that fails too
+ */
+@Directive({
+  selector: 'img[appPhotoSrc], video[appPhotoSrc]',
+  standalone: true
+})
+export class PhotoSrcDirective implements OnChanges, OnDestroy {
+  @Input('appPhotoSrc') photo: Photo | null = null;
+  @Input() photoSrcLazy = true; // Wait until the element scrolls into view (thumbnails)
+  @Output() photoSrcError = new EventEmitter<Event>();
+
+  private observer: IntersectionObserver | null = null;
+  private renewed = false; // A new URL was already signed after an error
+  private readonly LAZY_MARGIN = '300px'; // Sign a bit before the element becomes visible
+
+  constructor(
+    private element: ElementRef<HTMLImageElement | HTMLVideoElement>,
+    private photoService: PhotoService
+  ) { }
+
+  ngOnChanges() {
+    this.disconnect();
+    this.renewed = false;
+
+    if (!this.photo) {
+      this.element.nativeElement.removeAttribute('src');
+      return;
+    }
+
+    if (this.photoSrcLazy && typeof IntersectionObserver !== 'undefined') {
+      this.observer = new IntersectionObserver(entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          this.disconnect();
+          this.sign();
+        }
+      }, { rootMargin: this.LAZY_MARGIN });
+      this.observer.observe(this.element.nativeElement);
+    } else {
+      this.sign();
+    }
+  }
+
+  ngOnDestroy() {
+    this.disconnect();
+  }
+
+  @HostListener('load')
+  @HostListener('loadeddata')
+  onLoad() {
+    // Later failures (e.g. a looping clip whose URL expired) may renew again
+    this.renewed = false;
+  }
+
+  @HostListener('error', ['$event'])
+  onError(event: Event) {
+    if (!this.photo || !this.element.nativeElement.getAttribute('src')) return;
+
+    if (!this.renewed) {
+      this.renewed = true;
+      console.warn('Failed to load', this.photo.key, '- renewing its URL');
+      this.sign(true);
+    } else {
+      this.photoSrcError.emit(event);
+    }
+  }
+
+  private async sign(renew = false) {
+    const photo = this.photo;
+    if (!photo) return;
+
+    try {
+      const url = await this.photoService.getPhotoUrl(photo, renew);
+
+      // Ignore URLs of a photo that was replaced while signing
+      if (this.photo?.key === photo.key) {
+        this.element.nativeElement.src = url;
+      }
+    } catch (error) {
+      console.error('Error getting URL for', photo.key, ':', error);
+      this.photoSrcError.emit(new Event('error'));
+    }
+  }
+
+  private disconnect() {
+    this.observer?.disconnect();
+    this.observer = null;
+  }
+}
@@ -0,0 +1,92 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActionConfigService } from '../../services/action-config.service';
+import { DeviceService } from '../../services/device.service';
+import { ALERT_RULE_LABELS, AlertEvent, AlertService } from '../../services/alert.service';
+import { ALERT_THRESHOLD_UNITS, AlertRule, AlertRuleType, hasThreshold, isSnoozed } from '../../services/alert-rules';
+import { ActionBarComponent } from '../../components/action-bar/action-bar.component';
+
+/**
+ * Alert rules editor, browser notification permission and the history of matched alerts
+ */
+@Component({
+  selector: 'app-alerts',
+  standalone: true,
+  imports: [CommonModule, FormsModule, ActionBarComponent],
+  templateUrl: './alerts.component.html',
+  styleUrl: './alerts.component.css'
+})
+export class AlertsComponent implements OnInit, OnDestroy {
+  newRuleType: AlertRuleType = 'temperatureBelow';
+
+  readonly ruleTypes = Object.keys(ALERT_RULE_LABELS) as AlertRuleType[];
+  readonly ruleLabels = ALERT_RULE_LABELS;
+  readonly thresholdUnits = ALERT_THRESHOLD_UNITS;
+  readonly hasThreshold = hasThreshold;
+  readonly snoozeOptions = [
+    { label: '1 oră', minutes: 60 },
+    { label: '8 ore', minutes: 8 * 60 },
+    { label: '1 zi', minutes: 24 * 60 },
+    { label: '1 săptămână', minutes: 7 * 24 * 60 }
+  ];
+
+  constructor(
+    public alertService: AlertService,
+    public config: ActionConfigService,
+    public deviceService: DeviceService
+  ) { }
+
+  ngOnInit() {
+    this.alertService.markAllRead();
+  }
+
+  ngOnDestroy() {
+    // Alerts that arrived while the page was open were seen too
+    this.alertService.markAllRead();
+  }
+
+  onEnabledChange(rule: AlertRule, enabled: boolean) {
+    this.alertService.updateRule(rule.id, { enabled });
+  }
+
+  onThresholdChange(rule: AlertRule, threshold: number | null) {
+    if (threshold !== null && Number.isFinite(threshold) && (rule.type !== 'blanketStuckOn' || threshold > 0)) {
+      this.alertService.updateRule(rule.id, { threshold });
+    }
+  }
+
+  onDeviceChange(rule: AlertRule, deviceId: string) {
+    this.alertService.updateRule(rule.id, { deviceId: deviceId || null });
+  }
+
+  onSnooze(rule: AlertRule, minutes: string) {
+    if (minutes) {
+      this.alertService.snooze(rule.id, Number(minutes));
+    }
+  }
+
+  isSnoozed(rule: AlertRule): boolean {
+    return isSnoozed(rule);
+  }
+
+  async enableNotifications() {
+    await this.alertService.requestNotificationPermission();
+  }
+
+  getDeviceName(deviceId: string): string {
+    return this.deviceService.getDevice(deviceId)?.name ?? deviceId;
+  }
+
+  formatTime(date: Date | number): string {
+    return new Date(date).toLocaleString('ro-RO', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit', hour12: false });
+  }
+
+  trackByRule(index: number, rule: AlertRule): string {
+    return rule.id;
+  }
+
+  trackByEvent(index: number, event: AlertEvent): string {
+    return event.id;
+  }
+}
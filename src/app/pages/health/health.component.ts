@@ -0,0 +1,210 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject, skip, takeUntil } from 'rxjs';
+import { PhotoService } from '../../services/photo.service';
+import { VisitService } from '../../services/visit.service';
+import { DeviceService } from '../../services/device.service';
+import {
+  DeviceHealth, FailureInterval, HealthFlag, HealthPoint, LEAK_WARNING_BYTES_PER_HOUR, getDeviceHealth
+} from '../../services/device-health';
+import { ActionBarComponent } from '../../components/action-bar/action-bar.component';
+import { DateRange, DateRangeSelectorComponent } from '../../components/date-range-selector/date-range-selector.component';
+import { HealthChartComponent, HealthChartSeries } from '../../components/health-chart/health-chart.component';
+
+// A camera's health with its chart series, built once per load
+interface DeviceHealthView extends DeviceHealth {
+  name: string;
+  heapSeries: HealthChartSeries[];
+  psramSeries: HealthChartSeries[];
+  chipSeries: HealthChartSeries[];
+  rebootTimes: Date[];
+}
+
+/**
+ * Firmware health of each camera: memory, chip temperature, reboots and component failures
+ */
+@Component({
+  selector: 'app-health',
+  standalone: true,
+  imports: [CommonModule, ActionBarComponent, DateRangeSelectorComponent, HealthChartComponent],
+  templateUrl: './health.component.html',
+  styleUrl: './health.component.css'
+})
+export class HealthComponent implements OnInit, OnDestroy {
+  startDate: Date;
+  endDate: Date;
+  devices: DeviceHealthView[] = [];
+  loading = false;
+  loadingProgress = 0;
+  loadingTotal = 0;
+  error: string | null = null;
+
+  readonly flags: HealthFlag[] = ['cameraAvailable', 'sensorWorking', 'wifiConnected'];
+  readonly flagLabels: Record<HealthFlag, string> = {
+    cameraAvailable: 'Cameră',
+    sensorWorking: 'Senzor DHT22',
+    wifiConnected: 'WiFi'
+  };
+
+  private readonly DEFAULT_DAYS = 3;
+  private generation = 0; // Results of older loads are dropped
+  private loadAbort: AbortController | null = null;
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private photoService: PhotoService,
+    private visitService: VisitService,
+    private deviceService: DeviceService
+  ) {
+    [this.startDate, this.endDate] = this.getDefaultRange();
+  }
+
+  async ngOnInit() {
+    // Switching camera (or to all cameras) reloads
+    this.deviceService.selectedDeviceId$.pipe(
+      skip(1),
+      takeUntil(this.destroy$)
+    ).subscribe(() => this.loadHealth());
+
+    await this.loadHealth();
+  }
+
+  ngOnDestroy() {
+    this.generation++; // Stop showing a load in progress
+    this.loadAbort?.abort();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  async loadHealth() {
+    const generation = ++this.generation;
+    // The listings of a replaced load (range or camera changed) are cancelled
+    this.loadAbort?.abort();
+    const abort = this.loadAbort = new AbortController();
+
+    try {
+      this.loading = true;
+      this.error = null;
+      this.loadingProgress = 0;
+      this.loadingTotal = 0;
+
+      const photos = await this.photoService.getPhotos(this.startDate, this.endDate, undefined, abort.signal);
+      if (generation !== this.generation) return;
+      this.loadingTotal = photos.length;
+
+      const samples = await this.visitService.getSamples(photos, done => {
+        if (generation === this.generation) this.loadingProgress = done;
+      });
+      if (generation !== this.generation) return;
+
+      this.devices = getDeviceHealth(samples).map(health => this.toView(health));
+    } catch (error) {
+      if (generation === this.generation) {
+        this.error = error instanceof Error ? error.message : 'Nu s-a putut încărca starea camerelor';
+      }
+      console.error('Error loading device health:', error);
+    } finally {
+      if (generation === this.generation) {
+        this.loading = false;
+      }
+    }
+  }
+
+  async onDateRangeChanged(range: DateRange | null) {
+    // "All photos" would list every day ever, fall back to the default range
+    [this.startDate, this.endDate] = range ? [range.startDate, range.endDate] : this.getDefaultRange();
+    await this.loadHealth();
+  }
+
+  /**
+   * True when the free heap shrinks fast enough since the last reboot to look like a leak
+   */
+  isLeaking(device: DeviceHealth): boolean {
+    return device.heapTrendBytesPerHour !== null && device.heapTrendBytesPerHour < -LEAK_WARNING_BYTES_PER_HOUR;
+  }
+
+  /**
+   * Hours until the free heap runs out at the current trend
+   */
+  getHoursUntilExhausted(device: DeviceHealth): number | null {
+    const freeHeap = device.latest.freeHeap;
+    if (freeHeap === undefined || !device.heapTrendBytesPerHour || device.heapTrendBytesPerHour >= 0) return null;
+    return freeHeap / -device.heapTrendBytesPerHour;
+  }
+
+  getFailures(device: DeviceHealth, flag: HealthFlag): FailureInterval[] {
+    return device.failures.filter(failure => failure.flag === flag);
+  }
+
+  /**
+   * Latest state of a component: true = working, false = failing, undefined = not reported
+   */
+  getStatus(point: HealthPoint, flag: HealthFlag): boolean | undefined {
+    return point[flag];
+  }
+
+  /**
+   * Horizontal position in the timeline, in percent of the range
+   */
+  getTimelinePosition(date: Date): number {
+    const range = this.endDate.getTime() - this.startDate.getTime();
+    return Math.min(100, Math.max(0, (date.getTime() - this.startDate.getTime()) / range * 100));
+  }
+
+  getTimelineWidth(failure: FailureInterval): number {
+    return Math.max(0.5, this.getTimelinePosition(failure.end) - this.getTimelinePosition(failure.start));
+  }
+
+  formatTime(date: Date): string {
+    return date.toLocaleString('ro-RO', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit', hour12: false });
+  }
+
+  formatDuration(seconds: number): string {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.round((seconds % 3600) / 60);
+    if (days > 0) return `${days}z ${hours}h`;
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+
+  getFailureSeconds(failure: FailureInterval): number {
+    return (failure.end.getTime() - failure.start.getTime()) / 1000;
+  }
+
+  trackByDevice(index: number, device: DeviceHealthView): string {
+    return device.deviceId;
+  }
+
+  private toView(health: DeviceHealth): DeviceHealthView {
+    const series = (label: string, color: string, value: (point: HealthPoint) => number | undefined, scale = 1) => ({
+      label,
+      color,
+      data: health.points.map(point => {
+        const y = value(point);
+        return { x: point.timestamp.getTime(), y: y === undefined ? null : y / scale };
+      })
+    });
+
+    return {
+      ...health,
+      name: this.deviceService.getDevice(health.deviceId)?.name ?? health.deviceId,
+      heapSeries: [
+        series('Heap liber (KB)', 'rgb(54, 162, 235)', point => point.freeHeap, 1024),
+        series('Minim de la pornire (KB)', 'rgb(255, 99, 132)', point => point.minFreeHeap, 1024)
+      ],
+      psramSeries: [series('PSRAM liber (KB)', 'rgb(153, 102, 255)', point => point.freePsram, 1024)],
+      chipSeries: [series('Chip (°C)', 'rgb(255, 159, 64)', point => point.chipTemperature)],
+      rebootTimes: health.reboots.map(reboot => reboot.bootTime)
+    };
+  }
+
+  /**
+   * The last DEFAULT_DAYS days, today included
+   */
+  private getDefaultRange(): [Date, Date] {
+    const end = new Date();
+    end.setHours(23, 59, 59, 999);
+    const start = new Date(end.getFullYear(), end.getMonth(), end.getDate() - this.DEFAULT_DAYS + 1);
+    return [start, end];
+  }
+}
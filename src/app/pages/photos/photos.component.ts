@@ -1,19 +1,32 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Router } from '@angular/router';
-import { PhotoService, Photo, PhotoPage } from '../../services/photo.service';
+import { PhotoService, Photo, PhotoPage, ManifestBuildProgress, PhotoRemovalMode, PhotoFilter } from '../../services/photo.service';
+import { PhotoRemovalService } from '../../services/photo-removal.service';
+import { PhotoExportService } from '../../services/photo-export.service';
+import { ManifestService } from '../../services/manifest.service';
+import { AnnotationService } from '../../services/annotation.service';
+import { CaptureWatchdogService } from '../../services/capture-watchdog.service';
+import { AlertService } from '../../services/alert.service';
 import { PhotoListComponent } from '../../components/photo-list/photo-list.component';
 import { PhotoViewerComponent } from '../../components/photo-viewer/photo-viewer.component';
 import { PhotoGraphsComponent } from '../../components/photo-graphs/photo-graphs.component';
 import { DateRangeSelectorComponent, DateRange } from '../../components/date-range-selector/date-range-selector.component';
 import { ActionBarComponent } from '../../components/action-bar/action-bar.component';
+import { JumpToDateComponent } from '../../components/jump-to-date/jump-to-date.component';
+import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+import { TimelapseDialogComponent } from '../../components/timelapse-dialog/timelapse-dialog.component';
+import { VisitsPanelComponent } from '../../components/visits-panel/visits-panel.component';
+import { PhotoFilterComponent } from '../../components/photo-filter/photo-filter.component';
 import { ActionConfigService } from '../../services/action-config.service';
-import { BehaviorSubject, Subject, takeUntil } from 'rxjs';
+import { DeviceService } from '../../services/device.service';
+import { getHourBucket, hasQualityFilter, pickBestPerHour } from '../../services/photo-quality';
+import { BehaviorSubject, Subject, skip, takeUntil } from 'rxjs';
 
 @Component({
   selector: 'app-photos',
   standalone: true,
-  imports: [CommonModule, PhotoListComponent, PhotoViewerComponent, PhotoGraphsComponent, DateRangeSelectorComponent, ActionBarComponent],
+  imports: [CommonModule, PhotoListComponent, PhotoViewerComponent, PhotoGraphsComponent, DateRangeSelectorComponent, ActionBarComponent, JumpToDateComponent, ConfirmDialogComponent, PhotoFilterComponent, TimelapseDialogComponent, VisitsPanelComponent],
   templateUrl: './photos.component.html',
   styleUrl: './photos.component.css'
 })
@@ -26,12 +39,24 @@ export class PhotosComponent implements OnInit, OnDestroy {
   isAuthError = false; // Flag to distinguish auth errors from other errors
   startDate?: Date;
   endDate?: Date;
+  filter: PhotoFilter = {}; // Favorites only / tag / image quality
+  knownTags: string[] = []; // Tags of the loaded photos, suggested by the filter
   showGraphs = false; // Toggle for showing graphs
+  leftPanelView: 'photos' | 'visits' = 'photos'; // Photo list or the cat visits among its photos
   autoRefresh = false; // Toggle for auto-refresh
+  manifestProgress: ManifestBuildProgress | null = null; // Set while building manifests
+  private readonly MANIFEST_DEFAULT_DAYS = 30; // Days indexed when no date range is selected
+  private readonly EXPORT_DEFAULT_HOURS = 24; // Hours exported (ZIP, timelapse) when no date range is selected
+  timelapse: { photos: Photo[] | null, fileName: string } | null = null; // Timelapse dialog, photos null while listing
   private refreshInterval: any = null;
   private readonly REFRESH_INTERVAL_MS = 60000; // 1 minute
-  private currentPage = 0; // Current page index for infinite scroll
   private hasMorePhotos = true; // Flag to track if more photos available
+  hasNewerPhotos = false; // After a jump: newer photos load when scrolling up
+  searchedBackTo: Date | null = null; // The last page stopped short: the filter matched little up to this day
+  loadingNewer = false;
+  jumping = false;
+  checkedKeys: Set<string> | null = null; // Bulk selection mode (null = off)
+  removalRequest: { photos: Photo[], mode: PhotoRemovalMode } | null = null; // Waiting for confirmation
   private readonly PAGE_SIZE = 30; // Number of photos to load per page
 
   // Left/Right panel resizing
@@ -49,13 +74,22 @@ export class PhotosComponent implements OnInit, OnDestroy {
   private readonly PHOTO_HEIGHT_KEY = 'photo-section-height';
 
   private destroy$ = new Subject<void>();
+  private loadGeneration = 0; // A newer list load owns the loading flag
+  private jumpGeneration = 0; // A newer jump owns the jumping flag
 
   private loadMoreSubject = new BehaviorSubject<boolean>(false);
   public loadMore$ = this.loadMoreSubject.asObservable();
 
   constructor(
-    private photoService: PhotoService,
+    public photoService: PhotoService,
     public config: ActionConfigService,
+    public deviceService: DeviceService,
+    public manifestService: ManifestService,
+    public removalService: PhotoRemovalService,
+    public exportService: PhotoExportService,
+    private annotationService: AnnotationService,
+    public watchdog: CaptureWatchdogService,
+    private alertService: AlertService,
     private router: Router
   ) {
     // Load saved panel width from localStorage
@@ -82,6 +116,34 @@ export class PhotosComponent implements OnInit, OnDestroy {
     this.config.autoRefresh$.pipe(
       takeUntil(this.destroy$)
     ).subscribe(this.setAutoRefresh.bind(this));
+
+    // Removal failed after the undo window: show the photos again
+    this.removalService.failed$.pipe(
+      takeUntil(this.destroy$)
+    ).subscribe(failed => {
+      this.restorePhotos(failed.photos);
+      this.error = failed.message;
+    });
+
+    // New tags become filter suggestions
+    this.annotationService.changed$.pipe(
+      takeUntil(this.destroy$)
+    ).subscribe(() => this.updateKnownTags());
+
+    // Switching camera (or to the combined timeline) reloads the photo list
+    this.deviceService.selectedDeviceId$.pipe(
+      skip(1),
+      takeUntil(this.destroy$)
+    ).subscribe(() => {
+      this.loadPhotos();
+      this.watchdog.start();
+      this.alertService.start();
+    });
+
+    // Overdue scheduled photos raise the offline banner
+    this.watchdog.start();
+    // Alert rules are checked on the photos each refresh finds
+    this.alertService.start();
   }
 
   ngOnDestroy() {
@@ -96,36 +158,49 @@ export class PhotosComponent implements OnInit, OnDestroy {
       clearInterval(this.refreshInterval);
     }
 
+    this.watchdog.stop();
+    this.alertService.stop();
+    this.photoService.cancelPaging(); // Free the request slots for the next page
     this.destroy$.next();
     this.destroy$.complete();
   }
 
   async loadPhotos() {
+    const generation = ++this.loadGeneration;
+
     try {
       this.loading = true;
       this.error = null;
       this.photos = [];
-      this.currentPage = 0;
       this.hasMorePhotos = true;
+      this.hasNewerPhotos = false;
+      this.searchedBackTo = null;
 
       // Clear cache when reloading (e.g., after date range change or refresh)
-      this.photoService.clearCache();
+      this.photoService.clearCache(this.startDate, this.endDate, this.filter);
+      this.annotationService.clearCache(); // Pick up what others annotated meanwhile
 
       // Load first page
-      const page = await this.photoService.getPhotosPage(this.PAGE_SIZE, this.currentPage);
+      const page = await this.photoService.getPhotosPage(this.PAGE_SIZE, 0, this.startDate, this.endDate, this.filter);
 
       this.photos = page.photos;
       this.hasMorePhotos = page.hasMore;
+      this.searchedBackTo = page.searchedBackTo ?? null;
 
-      // Auto-select first photo if available
-      if (this.photos.length > 0 && !this.selectedPhoto) {
-        this.selectedPhoto = this.photos[0];
+      // Auto-select first photo if nothing (or a photo outside the date range) is selected
+      if (!this.photos.some(p => p.key === this.selectedPhoto?.key)) {
+        this.selectedPhoto = this.photos.length > 0 ? this.photos[0] : null;
       }
+
+      await this.updateKnownTags();
     } catch (err: any) {
+      if (err.name === 'AbortError') return; // Replaced by another load or jump (range or camera changed)
       this.error = err.message || 'Failed to load photos';
       console.error('Error loading photos:', err);
     } finally {
-      this.loading = false;
+      if (generation === this.loadGeneration) {
+        this.loading = false;
+      }
     }
   }
 
@@ -138,40 +213,300 @@ export class PhotosComponent implements OnInit, OnDestroy {
     try {
       this.loadMoreSubject.next(true);
 
-      // Load next page
-      this.currentPage++;
-      const page = await this.photoService.getPhotosPage(this.PAGE_SIZE, this.currentPage);
+      // Load the photos after the oldest one shown (the first page again while the search found none)
+      const page = this.photos.length > 0
+        ? await this.photoService.getOlderPhotos(this.photos[this.photos.length - 1], this.PAGE_SIZE)
+        : await this.photoService.getPhotosPage(this.PAGE_SIZE, 0, this.startDate, this.endDate, this.filter);
 
       // Append new photos to existing list
       this.photos = [...this.photos, ...page.photos];
       this.hasMorePhotos = page.hasMore;
+      this.searchedBackTo = page.searchedBackTo ?? null;
+      if (!this.selectedPhoto && this.photos.length > 0) {
+        this.selectedPhoto = this.photos[0];
+      }
 
       console.log(`Loaded ${page.photos.length} more photos. Total: ${this.photos.length}`);
     } catch (err: any) {
-      console.error('Error loading more photos:', err);
+      if (err.name !== 'AbortError') {
+        console.error('Error loading more photos:', err);
+      }
       // Don't show error to user for pagination failures
     } finally {
       this.loadMoreSubject.next(false);
     }
   }
 
+  /**
+   * Load the photos just newer than the newest one shown (the list starts at a jump target)
+   */
+  async loadNewerPhotos() {
+    if (this.loadingNewer || !this.hasNewerPhotos || this.photos.length === 0) {
+      return;
+    }
+
+    try {
+      this.loadingNewer = true;
+
+      const page = await this.photoService.getNewerPhotos(this.photos[0], this.PAGE_SIZE);
+
+      this.photos = [...page.photos, ...this.photos];
+      this.hasNewerPhotos = page.hasMore;
+
+      console.log(`Loaded ${page.photos.length} newer photos. Total: ${this.photos.length}`);
+    } catch (err) {
+      console.error('Error loading newer photos:', err);
+    } finally {
+      this.loadingNewer = false;
+    }
+  }
+
+  /**
+   * Go to a date and time: load its day and select the nearest photo
+   */
+  async onJump(target: Date) {
+    const generation = ++this.jumpGeneration;
+
+    try {
+      this.jumping = true;
+      this.error = null;
+
+      const result = await this.photoService.jumpTo(target, this.startDate, this.endDate, this.filter);
+
+      this.photos = result.photos;
+      this.hasMorePhotos = result.hasOlder;
+      this.hasNewerPhotos = result.hasNewer;
+      this.searchedBackTo = null;
+      this.selectedPhoto = result.selected;
+
+      if (!result.selected) {
+        this.error = 'Nu s-au găsit poze în jurul datei alese.';
+      }
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') return; // Replaced by another jump or load
+      this.error = (err as Error).message || 'Failed to jump to date';
+      console.error('Error jumping to date:', err);
+    } finally {
+      if (generation === this.jumpGeneration) {
+        this.jumping = false;
+      }
+    }
+  }
+
   onPhotoSelected(photo: Photo) {
     this.selectedPhoto = photo;
   }
 
-  async onDateRangeChanged(dateRange: DateRange) {
-    this.startDate = dateRange.startDate;
-    this.endDate = dateRange.endDate;
-    // Note: Date range is kept for potential future filtering, but not used in infinite scroll
+  /**
+   * Show a visit's representative photo (it is one of the listed photos)
+   */
+  onVisitSelected(photo: Photo) {
+    this.selectedPhoto = photo;
+  }
+
+  async onDateRangeChanged(dateRange: DateRange | null) {
+    this.startDate = dateRange?.startDate;
+    this.endDate = dateRange?.endDate;
     // Clear cache and reload when date range changes
     await this.loadPhotos();
   }
 
+  async onFilterChanged(filter: PhotoFilter) {
+    this.filter = filter;
+    await this.loadPhotos();
+  }
+
+  /**
+   * True when the filter hides some photos (gaps in the list aren't missed captures then)
+   */
+  get isFiltered(): boolean {
+    return !!this.filter.favoritesOnly || !!this.filter.tag || hasQualityFilter(this.filter) ||
+      !!this.filter.bestPerHour || !!this.filter.changedOnly;
+  }
+
+  private async updateKnownTags() {
+    this.knownTags = await this.annotationService.getKnownTags();
+  }
+
+  /**
+   * Write manifests for the completed days of the selected range (default: last 30 days)
+   */
+  async buildManifests() {
+    if (this.manifestProgress) return;
+
+    const endDate = this.endDate ?? new Date();
+    const startDate = this.startDate ?? new Date(endDate.getTime() - this.MANIFEST_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+
+    try {
+      this.manifestProgress = { done: 0, total: 0, built: 0 };
+      const built = await this.photoService.buildManifests(startDate, endDate, progress => {
+        this.manifestProgress = progress;
+      });
+      console.log(`Manifests built: ${built}`);
+    } catch (err) {
+      this.error = (err as Error).message || 'Failed to build manifests';
+      console.error('Error building manifests:', err);
+    } finally {
+      this.manifestProgress = null;
+    }
+  }
+
+  /**
+   * Photos a ZIP or timelapse is made of: the checked photos, else the selected range (default: last 24 hours)
+   * @returns Name for the output file (without extension) and a function listing the photos
+   */
+  private getExportTarget(prefix: string): { name: string, getPhotos: () => Promise<Photo[]> } | null {
+    const checked = this.checkedKeys ? this.photos.filter(photo => this.checkedKeys!.has(photo.key)) : null;
+    if (checked?.length === 0) return null;
+
+    const endDate = this.endDate ?? new Date();
+    const startDate = this.startDate ?? new Date(endDate.getTime() - this.EXPORT_DEFAULT_HOURS * 60 * 60 * 1000);
+
+    // Photos are sorted newest first
+    const from = checked ? checked[checked.length - 1].timestamp : startDate;
+    const to = checked ? checked[0].timestamp : endDate;
+    const day = (date: Date) => date.toISOString().substring(0, 10).replace(/-/g, '');
+
+    return {
+      name: `${prefix}_${day(from)}-${day(to)}`,
+      getPhotos: async () => checked ?? await this.photoService.getPhotos(startDate, endDate, this.filter)
+    };
+  }
+
+  /**
+   * Download the checked photos, else the selected range, as a ZIP
+   */
+  async exportZip() {
+    const target = this.getExportTarget('cat-photos');
+    if (!target) return;
+
+    try {
+      this.error = null;
+      await this.exportService.exportZip(`${target.name}.zip`, target.getPhotos);
+    } catch (err) {
+      this.error = (err as Error).message || 'Failed to export photos';
+      console.error('Error exporting photos:', err);
+    }
+  }
+
+  /**
+   * Open the timelapse dialog for the checked photos, else the selected range
+   */
+  async openTimelapse() {
+    const target = this.getExportTarget('cat-timelapse');
+    if (!target) return;
+
+    const timelapse: { photos: Photo[] | null, fileName: string } = { photos: null, fileName: `${target.name}.webm` };
+    this.timelapse = timelapse;
+
+    try {
+      const photos = await target.getPhotos();
+      if (this.timelapse === timelapse) {
+        this.timelapse = { ...timelapse, photos };
+      }
+    } catch (err) {
+      this.timelapse = null;
+      this.error = (err as Error).message || 'Failed to list photos';
+      console.error('Error listing photos for timelapse:', err);
+    }
+  }
+
+  formatBytes(bytes: number): string {
+    return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+  }
+
+  toggleSelectionMode() {
+    this.checkedKeys = this.checkedKeys ? null : new Set<string>();
+  }
+
+  onPhotoChecked(photo: Photo) {
+    if (!this.checkedKeys) return;
+
+    // New set so the list sees the change
+    const checked = new Set(this.checkedKeys);
+    if (checked.has(photo.key)) {
+      checked.delete(photo.key);
+    } else {
+      checked.add(photo.key);
+    }
+    this.checkedKeys = checked;
+  }
+
+  /**
+   * Ask for confirmation before deleting/archiving photos (with their metadata)
+   */
+  requestRemoval(photos: Photo[], mode: PhotoRemovalMode) {
+    if (photos.length > 0) {
+      this.removalRequest = { photos, mode };
+    }
+  }
+
+  requestCheckedRemoval(mode: PhotoRemovalMode) {
+    this.requestRemoval(this.photos.filter(photo => this.checkedKeys?.has(photo.key)), mode);
+  }
+
+  getRemovalMessage(): string {
+    const request = this.removalRequest;
+    if (!request) return '';
+
+    const count = request.photos.length === 1 ? 'Poza selectată' : `Cele ${request.photos.length} poze selectate`;
+    return request.mode === 'archive'
+      ? `${count} și metadatele lor vor fi mutate în arhivă.`
+      : `${count} și metadatele lor vor fi șterse definitiv.`;
+  }
+
+  async onRemovalConfirmed() {
+    const request = this.removalRequest;
+    if (!request) return;
+
+    this.removalRequest = null;
+    this.checkedKeys = null;
+
+    // Select the photo taking the place of the removed selected one
+    const keys = new Set(request.photos.map(photo => photo.key));
+    if (this.selectedPhoto && keys.has(this.selectedPhoto.key)) {
+      const index = this.photos.findIndex(photo => photo.key === this.selectedPhoto!.key);
+      const remaining = this.photos.filter((photo, i) => i > index && !keys.has(photo.key));
+      this.selectedPhoto = remaining[0] ?? this.photos.find(photo => !keys.has(photo.key)) ?? null;
+    }
+
+    this.photos = this.photos.filter(photo => !keys.has(photo.key));
+    await this.removalService.remove(request.photos, request.mode);
+  }
+
+  undoRemoval() {
+    this.restorePhotos(this.removalService.undo());
+  }
+
+  private restorePhotos(photos: Photo[]) {
+    const shown = new Set(this.photos.map(photo => photo.key));
+    this.photos = [...this.photos, ...photos.filter(photo => !shown.has(photo.key))]
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  /**
+   * Time of day, with the date when it's not today
+   */
+  formatClock(date: Date): string {
+    const options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', hour12: false };
+    if (date.toDateString() !== new Date().toDateString()) {
+      options.day = '2-digit';
+      options.month = 'short';
+    }
+    return date.toLocaleString('ro-RO', options);
+  }
+
   toggleGraphs() {
     this.showGraphs = !this.showGraphs;
   }
 
   async refreshPhotos() {
+    // After a jump the list doesn't reach the newest photos yet, they load when scrolling up
+    if (this.hasNewerPhotos) {
+      await this.watchNewestPhotos();
+      return;
+    }
+
     // If we have photos already, only fetch new ones
     if (this.photos.length > 0) {
       try {
@@ -182,12 +517,33 @@ export class PhotosComponent implements OnInit, OnDestroy {
         // Get the latest photo timestamp
         const latestTimestamp = this.photos[0].timestamp; // Photos are sorted newest first
 
-        // Fetch only new photos
-        const newPhotos = await this.photoService.getNewPhotosSince(latestTimestamp);
+        // Nothing new can show up once the selected date range has ended
+        if (this.endDate && this.endDate <= latestTimestamp) {
+          await this.watchNewestPhotos();
+          return;
+        }
+
+        // Fetch only new photos (within the selected date range, passing the filter)
+        const found = await this.photoService.getNewPhotosSince(latestTimestamp);
+        this.watchdog.observe(found); // An offline camera may be back
+        this.alertService.evaluate(found);
+        let newPhotos = await this.photoService.filterPhotos(
+          found.filter(photo => !this.endDate || photo.timestamp <= this.endDate),
+          { ...this.filter, bestPerHour: false }
+        );
+        let shown = this.photos;
+
+        if (this.filter.bestPerHour) {
+          // A new photo may beat the one shown for its hour
+          const hours = new Set(newPhotos.map(photo => getHourBucket(photo)));
+          const best = new Set(pickBestPerHour([...newPhotos, ...shown.filter(photo => hours.has(getHourBucket(photo)))]));
+          shown = shown.filter(photo => !hours.has(getHourBucket(photo)) || best.has(photo));
+          newPhotos = newPhotos.filter(photo => best.has(photo));
+        }
 
         if (newPhotos.length > 0) {
           // Prepend new photos to the list
-          this.photos = [...newPhotos, ...this.photos];
+          this.photos = [...newPhotos, ...shown];
 
           // If no photo is selected yet, select the first (newest) one
           if (!this.selectedPhoto) {
@@ -207,6 +563,19 @@ export class PhotosComponent implements OnInit, OnDestroy {
     } else {
       // No photos yet, do a full load
       await this.loadPhotos();
+      await this.watchNewestPhotos();
+    }
+  }
+
+  /**
+   * Check the alert rules and feed the capture watchdog with the newest photos, whatever range the list shows
+   */
+  private async watchNewestPhotos() {
+    try {
+      const found = await this.alertService.checkNewPhotos();
+      this.watchdog.observe(found);
+    } catch (err) {
+      console.warn('Error checking the newest photos:', err);
     }
   }
 
@@ -236,6 +605,21 @@ export class PhotosComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Camera's previous photo in the list (newest first), the viewer highlights the changes since it
+   */
+  getPreviousFrame(photo: Photo): Photo | null {
+    const index = this.photos.findIndex(p => p.key === photo.key);
+    if (index < 0) return null;
+
+    for (let i = index + 1; i < this.photos.length; i++) {
+      if (this.photos[i].deviceId === photo.deviceId && this.photos[i].mediaType === 'image') {
+        return this.photos[i];
+      }
+    }
+    return null;
+  }
+
   nextPhoto() {
     if (this.photos && this.photos.length) {
       const index = this.photos.findIndex(p => p.key === this.selectedPhoto?.key);
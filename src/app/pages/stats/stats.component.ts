@@ -0,0 +1,211 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, skip, takeUntil } from 'rxjs';
+import { Photo, PhotoService } from '../../services/photo.service';
+import { VisitService } from '../../services/visit.service';
+import { DeviceService } from '../../services/device.service';
+import { ActionConfigService } from '../../services/action-config.service';
+import { PresenceSample } from '../../services/visit-segmentation';
+import { PeriodStats, StatsPeriod, computePeriodStats } from '../../services/daily-stats';
+import { toSensorSeries } from '../../services/sensor-series';
+import {
+  BlanketEnergySettings, DutyCycleBin, EnergyUse, getBlanketIntervals, getDutyCycleByTemperature, getEnergyUse
+} from '../../services/blanket-energy';
+import { ActionBarComponent } from '../../components/action-bar/action-bar.component';
+import { DateRange, DateRangeSelectorComponent } from '../../components/date-range-selector/date-range-selector.component';
+import { SparklineComponent } from '../../components/sparkline/sparkline.component';
+import { DutyCycleChartComponent } from '../../components/duty-cycle-chart/duty-cycle-chart.component';
+
+// Columns summed over the whole range
+type StatsTotals = Pick<PeriodStats, 'photoCount' | 'visitCount' | 'catSeconds' | 'blanketOnSeconds' | 'blanketKnownSeconds' | 'rebootCount'>;
+
+/**
+ * Per-day, week and month summaries (cat time, visits, climate, blanket energy, reboots) of the selected cameras
+ */
+@Component({
+  selector: 'app-stats',
+  standalone: true,
+  imports: [CommonModule, FormsModule, ActionBarComponent, DateRangeSelectorComponent, SparklineComponent, DutyCycleChartComponent],
+  templateUrl: './stats.component.html',
+  styleUrl: './stats.component.css'
+})
+export class StatsComponent implements OnInit, OnDestroy {
+  startDate: Date;
+  endDate: Date;
+  period: StatsPeriod = 'day';
+  rows: PeriodStats[] = [];
+  trends: Record<string, (number | null)[]> = {}; // Column values across the rows, for the header sparklines
+  totals: StatsTotals | null = null; // Sums over the whole range
+  dutyCycleBins: DutyCycleBin[] = [];
+  energySettings: BlanketEnergySettings;
+  loading = false;
+  loadingProgress = 0;
+  loadingTotal = 0;
+  error: string | null = null;
+
+  private readonly DEFAULT_DAYS = 14;
+  private photos: Photo[] = [];
+  private samples: PresenceSample<Photo>[] = [];
+  private generation = 0; // Results of older loads are dropped
+  private loadAbort: AbortController | null = null;
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private photoService: PhotoService,
+    private visitService: VisitService,
+    private deviceService: DeviceService,
+    private config: ActionConfigService
+  ) {
+    [this.startDate, this.endDate] = this.getDefaultRange();
+    this.energySettings = { ...config.blanketEnergy$.getValue() };
+  }
+
+  async ngOnInit() {
+    // Switching camera (or to all cameras) recomputes the summaries
+    this.deviceService.selectedDeviceId$.pipe(
+      skip(1),
+      takeUntil(this.destroy$)
+    ).subscribe(() => this.loadStats());
+
+    await this.loadStats();
+  }
+
+  ngOnDestroy() {
+    this.generation++; // Stop showing a load in progress
+    this.loadAbort?.abort();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  async loadStats() {
+    const generation = ++this.generation;
+    // The listings of a replaced load (range or camera changed) are cancelled
+    this.loadAbort?.abort();
+    const abort = this.loadAbort = new AbortController();
+
+    try {
+      this.loading = true;
+      this.error = null;
+      this.loadingProgress = 0;
+      this.loadingTotal = 0;
+
+      const photos = await this.photoService.getPhotos(this.startDate, this.endDate, undefined, abort.signal);
+      if (generation !== this.generation) return;
+      this.loadingTotal = photos.length;
+
+      const samples = await this.visitService.getSamples(photos, done => {
+        if (generation === this.generation) this.loadingProgress = done;
+      });
+      if (generation !== this.generation) return;
+
+      this.photos = photos;
+      this.samples = samples;
+      this.updateRows();
+    } catch (error) {
+      if (generation === this.generation) {
+        this.error = error instanceof Error ? error.message : 'Nu s-au putut încărca statisticile';
+      }
+      console.error('Error loading stats:', error);
+    } finally {
+      if (generation === this.generation) {
+        this.loading = false;
+      }
+    }
+  }
+
+  async onDateRangeChanged(range: DateRange | null) {
+    // "All photos" would list every day ever, fall back to the default range
+    [this.startDate, this.endDate] = range ? [range.startDate, range.endDate] : this.getDefaultRange();
+    await this.loadStats();
+  }
+
+  setPeriod(period: StatsPeriod) {
+    this.period = period;
+    this.updateRows();
+  }
+
+  /**
+   * True when the range starts or ends within the period, so it's only partly summarized
+   */
+  isPartial(row: PeriodStats): boolean {
+    return row.start < this.startDate || row.end.getTime() - 1 > this.endDate.getTime();
+  }
+
+  /**
+   * Save the blanket wattage and electricity price (ignored until both are valid)
+   */
+  onEnergySettingsChange() {
+    const { watts, pricePerKwh } = this.energySettings;
+    if (watts > 0 && pricePerKwh >= 0) {
+      this.config.blanketEnergy$.next({ ...this.energySettings });
+    }
+  }
+
+  getEnergyUse(row: StatsTotals): EnergyUse {
+    return getEnergyUse(row.blanketOnSeconds, this.energySettings);
+  }
+
+  /**
+   * Share of the time with a known blanket state that the blanket was on
+   */
+  getDutyCycle(row: StatsTotals): number | null {
+    return row.blanketKnownSeconds > 0 ? row.blanketOnSeconds / row.blanketKnownSeconds : null;
+  }
+
+  formatPeriod(row: PeriodStats): string {
+    const format = (date: Date) => date.toLocaleDateString('ro-RO', { day: 'numeric', month: 'short' });
+    if (this.period === 'day') {
+      return row.start.toLocaleDateString('ro-RO', { weekday: 'short', day: 'numeric', month: 'short' });
+    }
+    if (this.period === 'month') {
+      return row.start.toLocaleDateString('ro-RO', { month: 'long', year: 'numeric' });
+    }
+    return `${format(row.start)} – ${format(new Date(row.end.getTime() - 1))}`;
+  }
+
+  formatDuration(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.round((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+
+  trackByStart(index: number, row: PeriodStats): number {
+    return row.start.getTime();
+  }
+
+  private updateRows() {
+    this.rows = computePeriodStats(this.photos, this.samples, this.period, this.startDate, this.endDate);
+    this.trends = {
+      catSeconds: this.rows.map(row => row.catSeconds),
+      visitCount: this.rows.map(row => row.visitCount),
+      temperature: this.rows.map(row => row.temperature?.avg ?? null),
+      humidity: this.rows.map(row => row.humidity?.avg ?? null),
+      dutyCycle: this.rows.map(row => this.getDutyCycle(row)),
+      photoCount: this.rows.map(row => row.photoCount),
+      rebootCount: this.rows.map(row => row.rebootCount)
+    };
+
+    const sum = (field: keyof StatsTotals) => this.rows.reduce((total, row) => total + row[field], 0);
+    this.totals = {
+      photoCount: sum('photoCount'),
+      visitCount: sum('visitCount'),
+      catSeconds: sum('catSeconds'),
+      blanketOnSeconds: sum('blanketOnSeconds'),
+      blanketKnownSeconds: sum('blanketKnownSeconds'),
+      rebootCount: sum('rebootCount')
+    };
+
+    this.dutyCycleBins = getDutyCycleByTemperature(getBlanketIntervals(toSensorSeries(this.samples)));
+  }
+
+  /**
+   * The last DEFAULT_DAYS days, today included
+   */
+  private getDefaultRange(): [Date, Date] {
+    const end = new Date();
+    end.setHours(23, 59, 59, 999);
+    const start = new Date(end.getFullYear(), end.getMonth(), end.getDate() - this.DEFAULT_DAYS + 1);
+    return [start, end];
+  }
+}
@@ -1,16 +1,30 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject } from 'rxjs';
+import { DeviceService } from './device.service';
+import { BlanketEnergySettings, DEFAULT_BLANKET_ENERGY_SETTINGS } from './blanket-energy';
+import { AlertRule, DEFAULT_ALERT_RULES } from './alert-rules';
 
 const INITIAL_ROTATION = 90;
 
+const INITIAL_BRIGHTNESS_LEVEL = 3; // Moderate boost for night photos
+
 const STORAGE_KEY="action-config-service";
 
+interface IDeviceSettings {
+  rotation: number;
+  brightnessLevel: number;
+}
+
 interface IConfig {
   autoRefresh: boolean;
   showGrid: boolean;
   rotation: number;
   showMetadata: boolean;
   brightnessLevel: number; // 1-5, where 1=normal, 5=very bright
+  autoExposure: boolean; // Correct each photo's exposure, brightnessLevel is the manual override
+  deviceSettings: Record<string, IDeviceSettings>; // Rotation/brightness remembered per camera
+  blanketEnergy: BlanketEnergySettings; // Blanket wattage and electricity price for the statistics
+  alertRules: AlertRule[]; // Conditions notified when new photos arrive
 }
 
 @Injectable({
@@ -22,17 +36,29 @@ export class ActionConfigService {
   public rotation$ = new BehaviorSubject<number>(INITIAL_ROTATION);
   public showGrid$ = new BehaviorSubject<boolean>(true);
   public showMetdata$ = new BehaviorSubject<boolean>(false);
-  public brightnessLevel$ = new BehaviorSubject<number>(3); // Default 3 (moderate boost for night photos)
+  public brightnessLevel$ = new BehaviorSubject<number>(INITIAL_BRIGHTNESS_LEVEL);
+  public autoExposure$ = new BehaviorSubject<boolean>(true);
+  public blanketEnergy$ = new BehaviorSubject<BlanketEnergySettings>(DEFAULT_BLANKET_ENERGY_SETTINGS);
+  public alertRules$ = new BehaviorSubject<AlertRule[]>(DEFAULT_ALERT_RULES);
 
   private config: IConfig = {
     autoRefresh: true,
     rotation: INITIAL_ROTATION,
     showGrid: true,
     showMetadata: false,
-    brightnessLevel: 3
+    brightnessLevel: INITIAL_BRIGHTNESS_LEVEL,
+    autoExposure: true,
+    deviceSettings: {},
+    blanketEnergy: DEFAULT_BLANKET_ENERGY_SETTINGS,
+    alertRules: DEFAULT_ALERT_RULES
   };
 
-  constructor() {
+  // Camera whose settings rotation$ and brightnessLevel$ currently hold
+  private deviceId: string;
+
+  constructor(private deviceService: DeviceService) {
+    this.deviceId = deviceService.selectedDeviceId$.getValue();
+
     try{
       const configString = localStorage.getItem(STORAGE_KEY);
 
@@ -45,16 +71,21 @@ export class ActionConfigService {
         this.config = {...this.config, ...filtered};
 
         this.autoRefresh$.next(this.config.autoRefresh);
-        this.rotation$.next(this.config.rotation);
         this.showGrid$.next(this.config.showGrid);
         this.showMetdata$.next(this.config.showMetadata);
-        this.brightnessLevel$.next(this.config.brightnessLevel);
+        this.autoExposure$.next(this.config.autoExposure);
+        this.blanketEnergy$.next({ ...DEFAULT_BLANKET_ENERGY_SETTINGS, ...this.config.blanketEnergy });
+        this.alertRules$.next(this.config.alertRules);
         }
     }
     catch(err) {
       console.error("failed to load config:", err);
     }
 
+    const settings = this.getDeviceSettings(this.deviceId);
+    this.rotation$.next(settings.rotation);
+    this.brightnessLevel$.next(settings.brightnessLevel);
+
     // Important: subscribe *after* our own changes in read
     this.autoRefresh$.subscribe(value => {
       this.config.autoRefresh = value;
@@ -68,6 +99,7 @@ export class ActionConfigService {
 
     this.rotation$.subscribe(value => {
       this.config.rotation = value;
+      this.config.deviceSettings[this.deviceId] = { ...this.getDeviceSettings(this.deviceId), rotation: value };
       this.saveConfig();
     });
 
@@ -78,8 +110,73 @@ export class ActionConfigService {
 
     this.brightnessLevel$.subscribe(value => {
       this.config.brightnessLevel = value;
+      this.config.deviceSettings[this.deviceId] = { ...this.getDeviceSettings(this.deviceId), brightnessLevel: value };
       this.saveConfig();
     });
+
+    this.autoExposure$.subscribe(value => {
+      this.config.autoExposure = value;
+      this.saveConfig();
+    });
+
+    this.blanketEnergy$.subscribe(value => {
+      this.config.blanketEnergy = value;
+      this.saveConfig();
+    });
+
+    this.alertRules$.subscribe(value => {
+      this.config.alertRules = value;
+      this.saveConfig();
+    });
+
+    // Switching camera brings back that camera's rotation and brightness
+    this.deviceService.selectedDeviceId$.subscribe(deviceId => {
+      if (deviceId === this.deviceId) {
+        return;
+      }
+
+      this.deviceId = deviceId;
+      const settings = this.getDeviceSettings(deviceId);
+      this.rotation$.next(settings.rotation);
+      this.brightnessLevel$.next(settings.brightnessLevel);
+    });
+  }
+
+  /**
+   * Saved settings for a camera, falling back to the camera's registry defaults
+   */
+  private getDeviceSettings(deviceId: string): IDeviceSettings {
+    const saved = this.config.deviceSettings[deviceId];
+    if (saved) {
+      return saved;
+    }
+
+    const device = this.deviceService.getDevice(deviceId);
+    return {
+      rotation: device?.rotation ?? this.config.rotation,
+      brightnessLevel: device?.brightnessLevel ?? this.config.brightnessLevel
+    };
+  }
+
+  /**
+   * Rotation for a photo of the given camera
+   * Photos of the selected camera follow rotation$, other cameras (combined timeline) their saved settings
+   */
+  public getRotation(deviceId?: string): number {
+    if (!deviceId || deviceId === this.deviceId) {
+      return this.rotation$.getValue();
+    }
+    return this.getDeviceSettings(deviceId).rotation;
+  }
+
+  /**
+   * Brightness level for a photo of the given camera (see getRotation)
+   */
+  public getBrightnessLevel(deviceId?: string): number {
+    if (!deviceId || deviceId === this.deviceId) {
+      return this.brightnessLevel$.getValue();
+    }
+    return this.getDeviceSettings(deviceId).brightnessLevel;
   }
 
   private saveConfig() {
@@ -95,6 +192,6 @@ export class ActionConfigService {
   }
 
   resetRotation() {
-    this.rotation$.next(INITIAL_ROTATION);
+    this.rotation$.next(this.deviceService.getDevice(this.deviceId)?.rotation ?? INITIAL_ROTATION);
   }
 }
@@ -0,0 +1,92 @@
+import { PhotoMetadata } from './metadata.service';
+import { AlertRule, DEFAULT_ALERT_RULES, evaluateAlertRules } from './alert-rules';
+import { presenceSample } from './testing/presence-sample';
+
+describe('evaluateAlertRules', () => {
+  const at = (time: string) => new Date(`2025-10-30T${time}Z`);
+  const now = at('23:00:00');
+
+  const sample = (time: string, metadata: Partial<PhotoMetadata>, deviceId?: string) => presenceSample(at(time), metadata, deviceId);
+
+  function rule(type: AlertRule['type'], threshold = 0, changes: Partial<AlertRule> = {}): AlertRule {
+    return { ...DEFAULT_ALERT_RULES.find(rule => rule.type === type)!, enabled: true, threshold, ...changes };
+  }
+
+  it('should match once when the temperature drops below the threshold', () => {
+    const matches = evaluateAlertRules([rule('temperatureBelow', 5)], [
+      sample('12:00:00', { temperature_celsius: 7 }),
+      sample('12:10:00', { temperature_celsius: 4.5 }),
+      sample('12:20:00', { temperature_celsius: 4 })
+    ], at('11:00:00'), now);
+
+    expect(matches.map(match => [match.photo.key, match.value])).toEqual([['porch/2025-10-30T12:10:00.000Z', 4.5]]);
+  });
+
+  it('should only match photos newer than since', () => {
+    const matches = evaluateAlertRules([rule('catArrived')], [
+      sample('12:00:00', { cat_present: false }),
+      sample('12:10:00', { cat_present: true }),
+      sample('12:20:00', { cat_present: false }),
+      sample('12:30:00', { cat_present: true })
+    ], at('12:15:00'), now);
+
+    expect(matches.map(match => match.photo.key)).toEqual(['porch/2025-10-30T12:30:00.000Z']);
+  });
+
+  it('should compare each photo with its own camera', () => {
+    const matches = evaluateAlertRules([rule('catLeft')], [
+      sample('12:00:00', { cat_present: true }, 'porch'),
+      sample('12:05:00', { cat_present: false }, 'garage'),
+      sample('12:10:00', { cat_present: false }, 'porch')
+    ], at('12:01:00'), now);
+
+    expect(matches.map(match => match.deviceId)).toEqual(['porch']);
+  });
+
+  it('should match when the blanket has been on for the threshold hours', () => {
+    const matches = evaluateAlertRules([rule('blanketStuckOn', 1)], [
+      sample('12:00:00', { blanket_on: true }),
+      sample('12:30:00', { blanket_on: true }),
+      sample('13:00:00', { blanket_on: true }),
+      sample('13:30:00', { blanket_on: true })
+    ], at('11:00:00'), now);
+
+    expect(matches.map(match => [match.photo.key, match.value])).toEqual([['porch/2025-10-30T13:00:00.000Z', 1]]);
+  });
+
+  it('should restart the blanket run after the camera was offline', () => {
+    const matches = evaluateAlertRules([rule('blanketStuckOn', 1)], [
+      sample('12:00:00', { blanket_on: true }),
+      sample('12:30:00', { blanket_on: true }),
+      sample('14:00:00', { blanket_on: true })
+    ], at('11:00:00'), now);
+
+    expect(matches).toEqual([]);
+  });
+
+  it('should match reboots and sensor failures', () => {
+    const matches = evaluateAlertRules([rule('reboot'), rule('sensorFailure')], [
+      sample('12:00:00', { uptime_seconds: 3600, dht22_sensor_working: true }),
+      sample('12:10:00', { uptime_seconds: 60, dht22_sensor_working: false }),
+      sample('12:20:00', { uptime_seconds: 660, dht22_sensor_working: false })
+    ], at('11:00:00'), now);
+
+    expect(matches.map(match => [match.rule.type, match.photo.key])).toEqual([
+      ['reboot', 'porch/2025-10-30T12:10:00.000Z'],
+      ['sensorFailure', 'porch/2025-10-30T12:10:00.000Z']
+    ]);
+  });
+
+  it('should skip snoozed, disabled and other cameras\' rules', () => {
+    const samples = [
+      sample('12:00:00', { cat_present: false }),
+      sample('12:10:00', { cat_present: true })
+    ];
+
+    expect(evaluateAlertRules([
+      rule('catArrived', 0, { snoozedUntil: at('13:00:00').getTime() }),
+      rule('catArrived', 0, { enabled: false }),
+      rule('catArrived', 0, { deviceId: 'garage' })
+    ], samples, at('11:00:00'), at('12:30:00'))).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+import { HealthPoint, toHealthPoint } from './device-health';
+import { MAX_READING_SECONDS, markReboots } from './sensor-series';
+import { PresenceSample, VisitPhoto } from './visit-segmentation';
+
+export type AlertRuleType =
+  'temperatureBelow' | 'humidityAbove' | 'catArrived' | 'catLeft' | 'blanketStuckOn' | 'reboot' | 'sensorFailure';
+
+/**
+ * Condition watched on the cameras' new photos
+ */
+export interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  threshold: number; // °C, % or hours (see ALERT_THRESHOLD_UNITS), unused by the other types
+  deviceId: string | null; // null: every camera
+  snoozedUntil: number | null; // Epoch milliseconds, the rule stays quiet until then
+}
+
+/**
+ * A rule that started holding at a photo
+ */
+export interface AlertMatch<T extends VisitPhoto> {
+  rule: AlertRule;
+  deviceId: string;
+  photo: T;
+  value?: number; // Temperature, humidity or hours the blanket has been on
+}
+
+// Unit of the threshold of the rule types that have one
+export const ALERT_THRESHOLD_UNITS: Partial<Record<AlertRuleType, string>> = {
+  temperatureBelow: '°C',
+  humidityAbove: '%',
+  blanketStuckOn: 'h'
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'temperature-low', type: 'temperatureBelow', enabled: true, threshold: 5, deviceId: null, snoozedUntil: null },
+  { id: 'humidity-high', type: 'humidityAbove', enabled: false, threshold: 85, deviceId: null, snoozedUntil: null },
+  { id: 'cat-arrived', type: 'catArrived', enabled: true, threshold: 0, deviceId: null, snoozedUntil: null },
+  { id: 'cat-left', type: 'catLeft', enabled: false, threshold: 0, deviceId: null, snoozedUntil: null },
+  { id: 'blanket-stuck', type: 'blanketStuckOn', enabled: true, threshold: 6, deviceId: null, snoozedUntil: null },
+  { id: 'reboot', type: 'reboot', enabled: true, threshold: 0, deviceId: null, snoozedUntil: null },
+  { id: 'sensor-failure', type: 'sensorFailure', enabled: true, threshold: 0, deviceId: null, snoozedUntil: null }
+];
+
+export function hasThreshold(type: AlertRuleType): boolean {
+  return ALERT_THRESHOLD_UNITS[type] !== undefined;
+}
+
+export function isSnoozed(rule: AlertRule, now: Date = new Date()): boolean {
+  return rule.snoozedUntil !== null && rule.snoozedUntil > now.getTime();
+}
+
+// What a camera reported before the photo being checked
+interface DeviceState {
+  temperature?: number;
+  humidity?: number;
+  catPresent?: boolean;
+  sensorWorking?: boolean;
+  blanketOnSince?: Date; // First photo of the current run of photos with the blanket on
+  previous?: HealthPoint;
+}
+
+/**
+ * Rules matching the new photos
+ * A rule matches once when its condition starts holding, not on every photo while it holds, so each
+ * photo is compared with what its camera reported before: pass the photos preceding the new ones too
+ * @param samples Earlier and new photos with their metadata
+ * @param since Only photos newer than this are new
+ * @returns Matches, oldest first
+ */
+export function evaluateAlertRules<T extends VisitPhoto>(
+  rules: AlertRule[],
+  samples: PresenceSample<T>[],
+  since: Date,
+  now: Date = new Date()
+): AlertMatch<T>[] {
+  const active = rules.filter(rule => rule.enabled && !isSnoozed(rule, now));
+  const photos = new Map(samples.map(sample => [sample.photo.key, sample.photo]));
+  const points = samples
+    .map(sample => toHealthPoint(sample.photo, sample.metadata))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  markReboots(points);
+
+  const matches: AlertMatch<T>[] = [];
+  const states = new Map<string, DeviceState>();
+
+  for (const point of points) {
+    const deviceId = point.deviceId!;
+    const state = states.get(deviceId) ?? {};
+    // The blanket's run of photos ends where the camera was offline (its state is unknown there)
+    const offline = state.previous !== undefined &&
+      point.timestamp.getTime() - state.previous.timestamp.getTime() > MAX_READING_SECONDS * 1000;
+    const blanketOnSince = point.blanketOn ? ((!offline && state.blanketOnSince) || point.timestamp) : undefined;
+
+    if (point.timestamp > since) {
+      for (const rule of active) {
+        if (rule.deviceId !== null && rule.deviceId !== deviceId) continue;
+
+        const value = matchRule(rule, point, state, blanketOnSince);
+        if (value !== false) {
+          matches.push({ rule, deviceId, photo: photos.get(point.photoKey!)!, value: value ?? undefined });
+        }
+      }
+    }
+
+    states.set(deviceId, {
+      temperature: point.temperature ?? state.temperature,
+      humidity: point.humidity ?? state.humidity,
+      catPresent: point.catPresent ?? state.catPresent,
+      sensorWorking: point.sensorWorking ?? state.sensorWorking,
+      blanketOnSince,
+      previous: point
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * @returns False when the rule doesn't start holding at the point, else the value it matched (null without one)
+ */
+function matchRule(rule: AlertRule, point: HealthPoint, state: DeviceState, blanketOnSince?: Date): number | null | false {
+  switch (rule.type) {
+    case 'temperatureBelow':
+      return crossed(point.temperature, state.temperature, value => value < rule.threshold);
+    case 'humidityAbove':
+      return crossed(point.humidity, state.humidity, value => value > rule.threshold);
+    case 'catArrived':
+      return point.catPresent === true && state.catPresent === false ? null : false;
+    case 'catLeft':
+      return point.catPresent === false && state.catPresent === true ? null : false;
+    case 'blanketStuckOn': {
+      if (!blanketOnSince) return false;
+      const hours = (point.timestamp.getTime() - blanketOnSince.getTime()) / 3_600_000;
+      const previousHours = state.blanketOnSince && state.blanketOnSince.getTime() === blanketOnSince.getTime()
+        ? (state.previous!.timestamp.getTime() - blanketOnSince.getTime()) / 3_600_000
+        : -1;
+      return hours >= rule.threshold && previousHours < rule.threshold ? hours : false;
+    }
+    case 'reboot':
+      return point.isReboot ? null : false;
+    case 'sensorFailure':
+      return point.sensorWorking === false && state.sensorWorking === true ? null : false;
+  }
+}
+
+/**
+ * A reading that meets the condition when the camera's previous reading didn't (or there was none)
+ */
+function crossed(value: number | null | undefined, previous: number | undefined, condition: (value: number) => boolean): number | false {
+  if (value === null || value === undefined || !condition(value)) return false;
+  return previous === undefined || !condition(previous) ? value : false;
+}
@@ -0,0 +1,268 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, map } from 'rxjs';
+import { Photo, PhotoService } from './photo.service';
+import { DeviceService } from './device.service';
+import { VisitService } from './visit.service';
+import { ActionConfigService } from './action-config.service';
+import { PresenceSample } from './visit-segmentation';
+import { AlertMatch, AlertRule, AlertRuleType, evaluateAlertRules } from './alert-rules';
+
+const STORAGE_KEY = 'alert-history';
+
+/**
+ * A rule match kept in the alert history
+ */
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  type: AlertRuleType;
+  deviceId: string;
+  photoKey: string;
+  timestamp: Date; // Photo the rule matched at
+  message: string;
+  read: boolean;
+}
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  temperatureBelow: 'Temperatura scade sub',
+  humidityAbove: 'Umiditatea crește peste',
+  catArrived: 'Pisica a venit',
+  catLeft: 'Pisica a plecat',
+  blanketStuckOn: 'Pătura e pornită de peste',
+  reboot: 'Camera a repornit',
+  sensorFailure: 'Senzorul DHT22 s-a defectat'
+};
+
+/**
+ * Checks the alert rules on the new photos found by the photo list's auto-refresh,
+ * shows browser notifications for the matches and keeps their history
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AlertService {
+  public history$ = new BehaviorSubject<AlertEvent[]>([]); // Newest first
+  public unreadCount$ = this.history$.pipe(map(history => history.filter(event => !event.read).length));
+
+  private context: PresenceSample<Photo>[] = []; // Recent photos the new ones are compared with
+  private since: Date | null = null; // Newest photo checked, null until started
+  private queue: Promise<void> = Promise.resolve(); // Checks run one after the other
+  private generation = 0; // Checks of a previous start are dropped
+
+  private readonly MAX_HISTORY = 200;
+  private readonly MAX_CONTEXT_HOURS = 24;
+
+  constructor(
+    private photoService: PhotoService,
+    private deviceService: DeviceService,
+    private visitService: VisitService,
+    private config: ActionConfigService
+  ) {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        const history: AlertEvent[] = JSON.parse(saved);
+        this.history$.next(history.map(event => ({ ...event, timestamp: new Date(event.timestamp) })));
+      }
+    } catch (error) {
+      console.error('Failed to load alert history:', error);
+    }
+
+    this.history$.subscribe(history => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+    });
+  }
+
+  /**
+   * Start checking the selected cameras (again after switching camera): load the recent photos
+   * the first new ones are compared with
+   */
+  start() {
+    this.stop();
+    const generation = this.generation;
+
+    this.enqueue(async () => {
+      const since = new Date();
+      const photos = await this.photoService.getNewPhotosSince(new Date(since.getTime() - this.getContextHours() * 60 * 60 * 1000));
+      if (generation !== this.generation) return;
+
+      const samples = await this.visitService.getSamples(photos.filter(photo => photo.mediaType === 'image'));
+      if (generation !== this.generation) return;
+
+      this.context = samples;
+      this.since = new Date(Math.max(since.getTime(), ...samples.map(sample => sample.photo.timestamp.getTime())));
+    });
+  }
+
+  stop() {
+    this.generation++;
+    this.context = [];
+    this.since = null;
+  }
+
+  /**
+   * Check the rules on the photos taken since the last check, for when the photo list can't refresh
+   * (a past range is shown, or the list doesn't reach the newest photos after a jump)
+   * @returns The photos found
+   */
+  async checkNewPhotos(): Promise<Photo[]> {
+    const since = this.since;
+    if (!since) return [];
+
+    const photos = await this.photoService.getNewPhotosSince(since);
+    await this.evaluate(photos);
+    return photos;
+  }
+
+  /**
+   * Check the rules on photos found by the photo list's refresh
+   */
+  evaluate(photos: Photo[]): Promise<void> {
+    const generation = this.generation;
+
+    return this.enqueue(async () => {
+      const since = this.since;
+      if (!since) return;
+
+      const fresh = photos.filter(photo => photo.mediaType === 'image' && photo.timestamp > since);
+      if (fresh.length === 0) return;
+
+      const samples = await this.visitService.getSamples(fresh);
+      if (generation !== this.generation) return;
+
+      const context = [...this.context, ...samples];
+      const matches = evaluateAlertRules(this.config.alertRules$.getValue(), context, since);
+      this.since = new Date(Math.max(since.getTime(), ...fresh.map(photo => photo.timestamp.getTime())));
+
+      // Keep the photos a rule may still need (the blanket's run), and each camera's latest
+      const start = this.since.getTime() - this.getContextHours() * 60 * 60 * 1000;
+      const latest = new Map<string, PresenceSample<Photo>>();
+      for (const sample of context) {
+        const known = latest.get(sample.photo.deviceId);
+        if (!known || sample.photo.timestamp > known.photo.timestamp) {
+          latest.set(sample.photo.deviceId, sample);
+        }
+      }
+      this.context = context.filter(sample =>
+        sample.photo.timestamp.getTime() >= start || latest.get(sample.photo.deviceId) === sample);
+
+      if (matches.length > 0) {
+        this.record(matches);
+      }
+    });
+  }
+
+  /**
+   * Keep a rule quiet for a while (null: until it is resumed)
+   */
+  snooze(ruleId: string, minutes: number | null) {
+    const snoozedUntil = minutes === null ? null : Date.now() + minutes * 60 * 1000;
+    this.updateRule(ruleId, { snoozedUntil });
+  }
+
+  updateRule(ruleId: string, changes: Partial<AlertRule>) {
+    this.config.alertRules$.next(this.config.alertRules$.getValue()
+      .map(rule => rule.id === ruleId ? { ...rule, ...changes } : rule));
+  }
+
+  addRule(type: AlertRuleType) {
+    const rule: AlertRule = {
+      id: `rule-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`,
+      type,
+      enabled: true,
+      threshold: type === 'blanketStuckOn' ? 6 : type === 'humidityAbove' ? 85 : 5,
+      deviceId: null,
+      snoozedUntil: null
+    };
+    this.config.alertRules$.next([...this.config.alertRules$.getValue(), rule]);
+  }
+
+  removeRule(ruleId: string) {
+    this.config.alertRules$.next(this.config.alertRules$.getValue().filter(rule => rule.id !== ruleId));
+  }
+
+  markAllRead() {
+    const history = this.history$.getValue();
+    if (history.some(event => !event.read)) {
+      this.history$.next(history.map(event => ({ ...event, read: true })));
+    }
+  }
+
+  clearHistory() {
+    this.history$.next([]);
+  }
+
+  /**
+   * Browser notification permission, 'unsupported' without the Notifications API
+   */
+  get notificationPermission(): NotificationPermission | 'unsupported' {
+    return 'Notification' in window ? Notification.permission : 'unsupported';
+  }
+
+  async requestNotificationPermission(): Promise<void> {
+    if (this.notificationPermission === 'default') {
+      await Notification.requestPermission();
+    }
+  }
+
+  private record(matches: AlertMatch<Photo>[]) {
+    const events: AlertEvent[] = matches.map(match => ({
+      id: `${match.photo.key}#${match.rule.id}`,
+      ruleId: match.rule.id,
+      type: match.rule.type,
+      deviceId: match.deviceId,
+      photoKey: match.photo.key,
+      timestamp: match.photo.timestamp,
+      message: this.formatMessage(match),
+      read: false
+    })).reverse();
+
+    this.history$.next([...events, ...this.history$.getValue()].slice(0, this.MAX_HISTORY));
+
+    for (const event of events) {
+      this.notify(event);
+    }
+  }
+
+  private notify(event: AlertEvent) {
+    if (this.notificationPermission !== 'granted') return;
+
+    try {
+      new Notification('Cat View', { body: event.message, tag: event.id });
+    } catch (error) {
+      // Some mobile browsers only notify from a service worker
+      console.warn('Failed to show notification:', error);
+    }
+  }
+
+  private formatMessage(match: AlertMatch<Photo>): string {
+    const camera = this.deviceService.getDevice(match.deviceId)?.name ?? match.deviceId;
+    const value = match.value ?? 0;
+
+    switch (match.rule.type) {
+      case 'temperatureBelow':
+        return `${camera}: temperatura a scăzut la ${value.toFixed(1)}°C (sub ${match.rule.threshold}°C)`;
+      case 'humidityAbove':
+        return `${camera}: umiditatea a crescut la ${Math.round(value)}% (peste ${match.rule.threshold}%)`;
+      case 'blanketStuckOn':
+        return `${camera}: pătura e pornită de ${value.toFixed(1)} h`;
+      default:
+        return `${camera}: ${ALERT_RULE_LABELS[match.rule.type].toLowerCase()}`;
+    }
+  }
+
+  /**
+   * Hours of photos kept to compare new photos with: the longest blanket rule, and at least an hour
+   */
+  private getContextHours(): number {
+    const thresholds = this.config.alertRules$.getValue()
+      .filter(rule => rule.enabled && rule.type === 'blanketStuckOn')
+      .map(rule => rule.threshold);
+    return Math.min(this.MAX_CONTEXT_HOURS, Math.max(1, ...thresholds) + 1);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task).catch(error => console.warn('Alert check failed:', error));
+    return this.queue;
+  }
+}
@@ -0,0 +1,188 @@
+import { Inject, Injectable } from '@angular/core';
+import { Subject } from 'rxjs';
+import { PHOTO_STORE, PhotoStore } from './photo-store';
+import { Device, DeviceService } from './device.service';
+
+export const ANNOTATIONS_VERSION = 1;
+
+/**
+ * What the household added to a photo
+ */
+export interface PhotoAnnotation {
+  favorite?: boolean;
+  tags?: string[]; // e.g. "vet day", "new blanket"
+  note?: string;
+  updated_at?: string;
+}
+
+/**
+ * Per-day, per-camera annotations file: annotations_YYYYMMDD.json next to the photos
+ * Shared through the bucket, so everyone sees the same favorites, tags and notes
+ */
+export interface DayAnnotations {
+  version: number;
+  date: string; // UTC day, YYYY-MM-DD
+  photos: Record<string, PhotoAnnotation>; // By photo key
+}
+
+// Photo fields needed to find its annotations (avoids depending on PhotoService)
+export interface AnnotatedPhoto {
+  key: string;
+  timestamp: Date;
+  deviceId: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AnnotationService {
+  // Loaded (or loading) annotation files by key
+  private dayCache = new Map<string, Promise<DayAnnotations>>();
+
+  // Emits the photo key of every saved annotation
+  public changed$ = new Subject<string>();
+
+  constructor(
+    @Inject(PHOTO_STORE) private store: PhotoStore,
+    private deviceService: DeviceService
+  ) { }
+
+  /**
+   * True when annotations can be saved (the http backend is read-only)
+   */
+  get canEdit(): boolean {
+    return this.store.writable;
+  }
+
+  /**
+   * Get a photo's annotation (empty when it has none)
+   */
+  async getAnnotation(photo: AnnotatedPhoto): Promise<PhotoAnnotation> {
+    const key = this.getAnnotationsKey(photo);
+    if (!key) return {};
+
+    const day = await this.getDayAnnotations(key, this.getDay(photo));
+    return day.photos[photo.key] ?? {};
+  }
+
+  /**
+   * Save a photo's annotation
+   * The day file is read again right before writing, to keep what others saved in the meantime
+   */
+  async setAnnotation(photo: AnnotatedPhoto, annotation: PhotoAnnotation): Promise<PhotoAnnotation> {
+    const key = this.getAnnotationsKey(photo);
+    if (!key) {
+      throw new Error(`Unknown camera ${photo.deviceId}`);
+    }
+
+    const day = await this.loadDayAnnotations(key, this.getDay(photo));
+    const saved: PhotoAnnotation = {
+      ...this.normalize(annotation),
+      updated_at: new Date().toISOString()
+    };
+
+    if (this.isEmpty(saved)) {
+      delete day.photos[photo.key];
+    } else {
+      day.photos[photo.key] = saved;
+    }
+
+    await this.store.putText(key, JSON.stringify(day), 'application/json');
+    this.dayCache.set(key, Promise.resolve(day));
+    this.changed$.next(photo.key);
+
+    return saved;
+  }
+
+  /**
+   * Tags used by the annotation files loaded so far, sorted
+   */
+  async getKnownTags(): Promise<string[]> {
+    const days = await Promise.all(this.dayCache.values());
+    const tags = new Set<string>();
+
+    for (const day of days) {
+      Object.values(day.photos).forEach(annotation => annotation.tags?.forEach(tag => tags.add(tag)));
+    }
+    return [...tags].sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Forget loaded annotation files (e.g. to see what others saved)
+   */
+  clearCache() {
+    this.dayCache.clear();
+  }
+
+  private getDayAnnotations(key: string, day: Date): Promise<DayAnnotations> {
+    let cached = this.dayCache.get(key);
+    if (!cached) {
+      cached = this.loadDayAnnotations(key, day);
+      this.dayCache.set(key, cached);
+
+      // Don't keep failed loads
+      cached.catch(() => this.dayCache.delete(key));
+    }
+    return cached;
+  }
+
+  private async loadDayAnnotations(key: string, day: Date): Promise<DayAnnotations> {
+    const empty: DayAnnotations = { version: ANNOTATIONS_VERSION, date: day.toISOString().substring(0, 10), photos: {} };
+    const bodyText = await this.store.getText(key);
+
+    if (!bodyText) {
+      return empty;
+    }
+
+    try {
+      const parsed: DayAnnotations = JSON.parse(bodyText);
+      if (parsed.version === ANNOTATIONS_VERSION && parsed.photos && typeof parsed.photos === 'object') {
+        return parsed;
+      }
+      console.warn('Ignoring annotations with unsupported format:', key);
+    } catch (error) {
+      console.error('Error parsing annotations', key, ':', error);
+    }
+    return empty;
+  }
+
+  /**
+   * Key of the annotations file of a photo's UTC day in its camera folder
+   */
+  private getAnnotationsKey(photo: AnnotatedPhoto): string | null {
+    const device: Device | undefined = this.deviceService.getDevice(photo.deviceId);
+    if (!device) return null;
+
+    const date = photo.timestamp.toISOString().substring(0, 10).replace(/-/g, '');
+    return this.store.resolveKey(`annotations_${date}.json`, device.folder);
+  }
+
+  private getDay(photo: AnnotatedPhoto): Date {
+    const day = new Date(photo.timestamp);
+    day.setUTCHours(0, 0, 0, 0);
+    return day;
+  }
+
+  /**
+   * Trim tags (deduplicated, case-insensitive) and the note, drop empty fields
+   */
+  private normalize(annotation: PhotoAnnotation): PhotoAnnotation {
+    const tags: string[] = [];
+    for (const tag of annotation.tags ?? []) {
+      const trimmed = tag.trim();
+      if (trimmed && !tags.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) {
+        tags.push(trimmed);
+      }
+    }
+
+    const normalized: PhotoAnnotation = {};
+    if (annotation.favorite) normalized.favorite = true;
+    if (tags.length > 0) normalized.tags = tags;
+    if (annotation.note?.trim()) normalized.note = annotation.note.trim();
+    return normalized;
+  }
+
+  private isEmpty(annotation: PhotoAnnotation): boolean {
+    return !annotation.favorite && !annotation.tags?.length && !annotation.note;
+  }
+}
@@ -0,0 +1,54 @@
+import { SensorDataPoint } from './sensor-series';
+import { getBlanketIntervals, getDutyCycleByTemperature, getEnergyUse } from './blanket-energy';
+
+describe('blanket energy', () => {
+  const point = (time: string, blanketOn: boolean | undefined, temperature: number, extra: Partial<SensorDataPoint> = {}): SensorDataPoint =>
+    ({ timestamp: new Date(`2025-10-30T${time}Z`), deviceId: 'porch', blanketOn, temperature, ...extra });
+
+  it('should leave out camera gaps and photos without a blanket state', () => {
+    const intervals = getBlanketIntervals([
+      point('10:00:00', true, 5),
+      point('10:10:00', false, 6),
+      point('10:20:00', undefined, 6),
+      point('10:30:00', true, 7),
+      point('12:30:00', true, 7) // Two hours without photos
+    ]);
+
+    expect(intervals.map(interval => [interval.seconds, interval.on])).toEqual([[600, true], [600, false]]);
+  });
+
+  it('should pair each photo with the next photo of the same camera', () => {
+    const intervals = getBlanketIntervals([
+      point('10:00:00', true, 5),
+      point('10:05:00', false, 20, { deviceId: 'garage' }),
+      point('10:10:00', true, 5)
+    ]);
+
+    expect(intervals.length).toEqual(1);
+    expect(intervals[0].seconds).toEqual(600);
+  });
+
+  it('should prefer the expected temperature', () => {
+    const intervals = getBlanketIntervals([
+      point('10:00:00', true, 20, { expectedTemperature: 3 }),
+      point('10:10:00', true, 20)
+    ]);
+
+    expect(intervals[0].temperature).toEqual(3);
+  });
+
+  it('should compute energy and cost', () => {
+    expect(getEnergyUse(3 * 3600, { watts: 20, pricePerKwh: 1.5, currency: 'lei' })).toEqual({ kWh: 0.06, cost: 0.09 });
+  });
+
+  it('should bin the duty cycle by temperature', () => {
+    const bins = getDutyCycleByTemperature([
+      { start: new Date(), seconds: 600, on: true, temperature: 1.5 },
+      { start: new Date(), seconds: 200, on: false, temperature: 0 },
+      { start: new Date(), seconds: 600, on: false, temperature: 10 },
+      { start: new Date(), seconds: 600, on: true }
+    ]);
+
+    expect(bins.map(bin => [bin.temperature, bin.dutyCycle])).toEqual([[0, 0.75], [10, 0]]);
+  });
+});
@@ -0,0 +1,95 @@
+import { MAX_READING_SECONDS, SensorDataPoint } from './sensor-series';
+
+/**
+ * Heated blanket rating and electricity tariff, to turn on-time into energy and cost
+ */
+export interface BlanketEnergySettings {
+  watts: number;
+  pricePerKwh: number;
+  currency: string;
+}
+
+export const DEFAULT_BLANKET_ENERGY_SETTINGS: BlanketEnergySettings = {
+  watts: 20,
+  pricePerKwh: 1.3,
+  currency: 'lei'
+};
+
+/**
+ * Time a reading stands for: from its photo until the camera's next photo
+ */
+export interface BlanketInterval {
+  start: Date;
+  seconds: number;
+  on: boolean;
+  temperature?: number; // Expected (else measured) temperature at the start
+}
+
+export interface EnergyUse {
+  kWh: number;
+  cost: number;
+}
+
+export interface DutyCycleBin {
+  temperature: number; // Lower bound of the bin
+  onSeconds: number;
+  knownSeconds: number;
+  dutyCycle: number; // 0-1
+}
+
+/**
+ * Intervals between each camera's consecutive photos, gaps (the blanket state is unknown while
+ * the camera was offline) and photos without a blanket state are left out
+ * @param points Sorted by timestamp, oldest first
+ */
+export function getBlanketIntervals(points: SensorDataPoint[]): BlanketInterval[] {
+  const intervals: BlanketInterval[] = [];
+  const previousByDevice = new Map<string | undefined, SensorDataPoint>();
+
+  for (const point of points) {
+    const previous = previousByDevice.get(point.deviceId);
+    previousByDevice.set(point.deviceId, point);
+    if (!previous || previous.blanketOn === undefined) continue;
+
+    const seconds = (point.timestamp.getTime() - previous.timestamp.getTime()) / 1000;
+    if (seconds <= 0 || seconds > MAX_READING_SECONDS) continue;
+
+    intervals.push({
+      start: previous.timestamp,
+      seconds,
+      on: previous.blanketOn,
+      temperature: previous.expectedTemperature ?? previous.temperature ?? undefined
+    });
+  }
+
+  return intervals;
+}
+
+/**
+ * Energy and cost of running the blanket for a number of seconds
+ */
+export function getEnergyUse(onSeconds: number, settings: BlanketEnergySettings): EnergyUse {
+  const kWh = settings.watts * onSeconds / 3600 / 1000;
+  return { kWh, cost: kWh * settings.pricePerKwh };
+}
+
+/**
+ * Share of time the blanket was on, per temperature bin
+ * @returns Bins with data, coldest first
+ */
+export function getDutyCycleByTemperature(intervals: BlanketInterval[], binSize = 2): DutyCycleBin[] {
+  const bins = new Map<number, DutyCycleBin>();
+
+  for (const interval of intervals) {
+    if (interval.temperature === undefined) continue;
+
+    const temperature = Math.floor(interval.temperature / binSize) * binSize;
+    const bin = bins.get(temperature) ?? { temperature, onSeconds: 0, knownSeconds: 0, dutyCycle: 0 };
+    bin.knownSeconds += interval.seconds;
+    if (interval.on) bin.onSeconds += interval.seconds;
+    bin.dutyCycle = bin.onSeconds / bin.knownSeconds;
+    bins.set(temperature, bin);
+  }
+
+  return [...bins.values()].sort((a, b) => a.temperature - b.temperature);
+}
@@ -0,0 +1,45 @@
+import { findMissedCaptures } from './capture-schedule';
+import { presenceSample } from './testing/presence-sample';
+
+describe('findMissedCaptures', () => {
+  const at = (time: string) => new Date(`2025-10-30T${time}Z`);
+
+  const sample = (time: string, nextMinutes: number | undefined, deviceId?: string) =>
+    presenceSample(at(time), { next_scheduled_photo_minutes: nextMinutes }, deviceId);
+
+  it('should accept photos arriving within the grace period', () => {
+    const missed = findMissedCaptures([
+      sample('12:00:00', 10),
+      sample('12:13:00', 10),
+      sample('12:23:00', 10)
+    ], at('12:30:00'));
+
+    expect(missed).toEqual([]);
+  });
+
+  it('should count the scheduled photos missing in a gap', () => {
+    const missed = findMissedCaptures([
+      sample('12:00:00', 10),
+      sample('12:45:00', 10)
+    ], at('12:50:00'));
+
+    expect(missed.length).toEqual(1);
+    expect(missed[0].expectedAt).toEqual(at('12:10:00'));
+    expect(missed[0].nextPhoto?.key).toEqual('porch/2025-10-30T12:45:00.000Z');
+    expect(missed[0].missedCount).toEqual(4); // 12:10, 12:20, 12:30, 12:40
+  });
+
+  it('should report a camera that stopped sending photos', () => {
+    const missed = findMissedCaptures([
+      sample('12:00:00', 10, 'porch'),
+      sample('12:30:00', 10, 'garage')
+    ], at('12:36:00'));
+
+    expect(missed.map(capture => [capture.deviceId, capture.nextPhoto])).toEqual([['porch', null]]);
+    expect(missed[0].missedCount).toEqual(3);
+  });
+
+  it('should skip photos without a schedule', () => {
+    expect(findMissedCaptures([sample('12:00:00', undefined)], at('18:00:00'))).toEqual([]);
+  });
+});
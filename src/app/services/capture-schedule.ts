@@ -0,0 +1,67 @@
+import { PresenceSample, VisitPhoto } from './visit-segmentation';
+
+// Photos arriving this much after their scheduled time still count as on time (upload, clock drift)
+export const MISSED_CAPTURE_GRACE_SECONDS = 5 * 60;
+
+/**
+ * Scheduled photos of one camera that never arrived
+ */
+export interface MissedCapture<T extends VisitPhoto> {
+  deviceId: string;
+  lastPhoto: T; // Last photo before the gap
+  expectedAt: Date; // When the first missing photo was due
+  nextPhoto: T | null; // First photo after the gap, null while the camera is still silent
+  missedCount: number; // Scheduled photos missing
+}
+
+/**
+ * When the camera planned its next photo, from the photo's next_scheduled_photo_minutes
+ */
+export function getExpectedNextPhoto(sample: PresenceSample<VisitPhoto>): Date | null {
+  const minutes = sample.metadata.next_scheduled_photo_minutes;
+  if (minutes === undefined) return null;
+  return new Date(sample.photo.timestamp.getTime() + minutes * 60_000);
+}
+
+/**
+ * Compare each camera's schedule with the photos that arrived
+ * A capture is missed when the next photo came (or, for the newest photo, hasn't come by now)
+ * more than the grace period after it was due
+ * @returns Missed captures, oldest first
+ */
+export function findMissedCaptures<T extends VisitPhoto>(samples: PresenceSample<T>[], now: Date = new Date()): MissedCapture<T>[] {
+  const missed: MissedCapture<T>[] = [];
+  const byDevice = new Map<string, PresenceSample<T>[]>();
+
+  for (const sample of samples) {
+    const deviceSamples = byDevice.get(sample.photo.deviceId) ?? [];
+    deviceSamples.push(sample);
+    byDevice.set(sample.photo.deviceId, deviceSamples);
+  }
+
+  for (const deviceSamples of byDevice.values()) {
+    deviceSamples.sort((a, b) => a.photo.timestamp.getTime() - b.photo.timestamp.getTime());
+
+    deviceSamples.forEach((sample, i) => {
+      const expectedAt = getExpectedNextPhoto(sample);
+      if (!expectedAt) return;
+
+      const next = deviceSamples[i + 1]?.photo ?? null;
+      const arrival = next ? next.timestamp.getTime() : now.getTime();
+      const lateMs = arrival - expectedAt.getTime() - MISSED_CAPTURE_GRACE_SECONDS * 1000;
+      if (lateMs <= 0) return;
+
+      // Each missed photo would have planned the next one the same interval later
+      const intervalMs = expectedAt.getTime() - sample.photo.timestamp.getTime();
+      missed.push({
+        deviceId: sample.photo.deviceId,
+        lastPhoto: sample.photo,
+        expectedAt,
+        nextPhoto: next,
+        missedCount: intervalMs > 0 ? Math.floor(lateMs / intervalMs) + 1 : 1
+      });
+    });
+  }
+
+  return missed.sort((a, b) => a.expectedAt.getTime() - b.expectedAt.getTime());
+}
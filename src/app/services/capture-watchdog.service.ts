@@ -0,0 +1,170 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { Photo, PhotoService } from './photo.service';
+import { MetadataService } from './metadata.service';
+import { DeviceService } from './device.service';
+import { VisitService } from './visit.service';
+import { PresenceSample } from './visit-segmentation';
+import { MISSED_CAPTURE_GRACE_SECONDS, MissedCapture, findMissedCaptures, getExpectedNextPhoto } from './capture-schedule';
+
+/**
+ * Camera whose scheduled photo is overdue
+ */
+export interface OfflineCamera {
+  deviceId: string;
+  lastPhoto: Photo | null; // null: no photo within the watchdog's lookback
+  expectedAt: Date | null; // When the overdue photo was due
+}
+
+/**
+ * Watches the selected cameras' photo schedule: when a camera's next photo is due, it looks for it
+ * with getNewPhotosSince, and reports the camera offline while the photo doesn't arrive
+ * Clips are motion-triggered, so only photos count
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CaptureWatchdogService {
+  public offline$ = new BehaviorSubject<OfflineCamera[]>([]);
+
+  private latest = new Map<string, Photo>(); // Newest photo of each camera
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private generation = 0; // Checks of a previous start are dropped
+
+  private readonly LOOKBACK_HOURS = 48; // Photos searched when starting
+  private readonly RECHECK_MS = 60 * 1000; // While a camera is offline
+  private readonly MAX_WAIT_MS = 15 * 60 * 1000; // Between checks of cameras without a schedule
+
+  constructor(
+    private photoService: PhotoService,
+    private metadataService: MetadataService,
+    private deviceService: DeviceService,
+    private visitService: VisitService
+  ) { }
+
+  /**
+   * Start watching the selected cameras (again after switching camera)
+   */
+  async start() {
+    this.stop();
+    const generation = this.generation;
+    await this.check(generation, new Date(Date.now() - this.LOOKBACK_HOURS * 60 * 60 * 1000));
+  }
+
+  stop() {
+    this.generation++;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.latest.clear();
+    this.offline$.next([]);
+  }
+
+  /**
+   * Photos found by someone else (the photo list's refresh), an offline camera may be back
+   */
+  async observe(photos: Photo[]) {
+    if (this.update(photos) && this.offline$.getValue().length > 0) {
+      await this.evaluate(this.generation);
+    }
+  }
+
+  /**
+   * Scheduled photos missing between the given photos (not after the newest one of each camera)
+   */
+  async findMissedCaptures(photos: Photo[]): Promise<MissedCapture<Photo>[]> {
+    const samples = await this.visitService.getSamples(photos.filter(photo => photo.mediaType === 'image'));
+    return findMissedCaptures(samples).filter(missed => missed.nextPhoto !== null);
+  }
+
+  private async check(generation: number, since: Date) {
+    try {
+      const photos = await this.photoService.getNewPhotosSince(since);
+      if (generation !== this.generation) return;
+
+      this.update(photos);
+      await this.evaluate(generation);
+    } catch (error) {
+      console.warn('Capture watchdog check failed:', error);
+      this.schedule(generation, this.RECHECK_MS);
+    }
+  }
+
+  /**
+   * Report the cameras whose next photo is overdue, and plan the next check
+   */
+  private async evaluate(generation: number) {
+    const now = new Date();
+    const offline: OfflineCamera[] = [];
+    const samples: PresenceSample<Photo>[] = [];
+
+    for (const device of this.deviceService.getActiveDevices()) {
+      const photo = this.latest.get(device.id);
+      if (!photo) {
+        offline.push({ deviceId: device.id, lastPhoto: null, expectedAt: null });
+        continue;
+      }
+
+      const metadata = await this.metadataService.getMetadata(photo.key);
+      if (metadata) {
+        samples.push({ photo, metadata });
+      }
+    }
+    if (generation !== this.generation) return;
+
+    for (const missed of findMissedCaptures(samples, now)) {
+      offline.push({ deviceId: missed.deviceId, lastPhoto: missed.lastPhoto, expectedAt: missed.expectedAt });
+    }
+    this.offline$.next(offline);
+
+    // Next check once the earliest photo is overdue, every minute while a camera is offline
+    const waits = samples
+      .map(sample => getExpectedNextPhoto(sample))
+      .filter((due): due is Date => due !== null)
+      .map(due => due.getTime() + MISSED_CAPTURE_GRACE_SECONDS * 1000 - now.getTime());
+    const wait = offline.length > 0 ? this.RECHECK_MS : Math.min(this.MAX_WAIT_MS, ...waits);
+    this.schedule(generation, Math.max(this.RECHECK_MS, wait));
+  }
+
+  private schedule(generation: number, delayMs: number) {
+    if (generation !== this.generation) return;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.check(generation, this.getSince());
+    }, delayMs);
+  }
+
+  /**
+   * Photos newer than the oldest of the cameras' newest photos are new to some camera
+   */
+  private getSince(): Date {
+    const lookback = Date.now() - this.LOOKBACK_HOURS * 60 * 60 * 1000;
+    const times = [...this.latest.values()].map(photo => photo.timestamp.getTime());
+    return new Date(Math.max(lookback, times.length > 0 ? Math.min(...times) : lookback));
+  }
+
+  /**
+   * Remember each camera's newest photo
+   * @returns True when a camera got a newer photo
+   */
+  private update(photos: Photo[]): boolean {
+    let changed = false;
+
+    for (const photo of photos) {
+      if (photo.mediaType !== 'image') continue;
+
+      const latest = this.latest.get(photo.deviceId);
+      if (!latest || photo.timestamp > latest.timestamp) {
+        this.latest.set(photo.deviceId, photo);
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+}
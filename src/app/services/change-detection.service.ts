@@ -0,0 +1,110 @@
+import { Inject, Injectable } from '@angular/core';
+import { PHOTO_STORE, PhotoStore } from './photo-store';
+import { Photo } from './photo.service';
+import { Frame, FrameDifference, getFrameDifference, getGridSize, toFrame } from './frame-difference';
+
+/**
+ * Change between consecutive photos of a camera, computed in the browser from the downloaded JPEGs
+ * (fetched like the timelapse frames, so the canvas isn't tainted by cross-origin images)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ChangeDetectionService {
+  private frames = new Map<string, Promise<Frame | null>>(); // Oldest first, limited to MAX_FRAMES
+  private previous = new Map<string, Photo>(); // Photo each scored photo was compared with
+
+  private readonly MAX_FRAMES = 1000; // Frames are ~12 KB each
+  private readonly PARALLEL_DOWNLOADS = 4;
+
+  constructor(@Inject(PHOTO_STORE) private store: PhotoStore) { }
+
+  /**
+   * Difference between a photo and an earlier photo of the same camera
+   * @returns null when either photo can't be loaded or their resolutions differ
+   */
+  async compare(photo: Photo, previous: Photo): Promise<FrameDifference | null> {
+    const [previousFrame, frame] = await Promise.all([this.getFrame(previous), this.getFrame(photo)]);
+    return previousFrame && frame ? getFrameDifference(previousFrame, frame) : null;
+  }
+
+  /**
+   * Set the changeScore of photos compared with the camera's previous photo among them (scored photos are kept)
+   * The oldest photo of each camera (and photos that failed to load) get no score
+   */
+  async scorePhotos(photos: Photo[]): Promise<void> {
+    const pairs: [Photo, Photo][] = [];
+    const byDevice = new Map<string, Photo[]>();
+
+    for (const photo of photos) {
+      if (photo.mediaType !== 'image') continue;
+
+      const devicePhotos = byDevice.get(photo.deviceId) ?? [];
+      devicePhotos.push(photo);
+      byDevice.set(photo.deviceId, devicePhotos);
+    }
+
+    for (const devicePhotos of byDevice.values()) {
+      devicePhotos.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      for (let i = 1; i < devicePhotos.length; i++) {
+        if (devicePhotos[i].changeScore === undefined) {
+          pairs.push([devicePhotos[i], devicePhotos[i - 1]]);
+        }
+      }
+    }
+
+    // Pairs share frames, so a few at a time keeps downloads (and decoding) bounded
+    for (let i = 0; i < pairs.length; i += this.PARALLEL_DOWNLOADS) {
+      await Promise.all(pairs.slice(i, i + this.PARALLEL_DOWNLOADS).map(async ([photo, previous]) => {
+        const difference = await this.compare(photo, previous);
+        if (difference) {
+          photo.changeScore = difference.score;
+          this.previous.set(photo.key, previous);
+        }
+      }));
+    }
+  }
+
+  /**
+   * Photo a scored photo was compared with (its camera's previous photo, which a filtered list may not show)
+   */
+  getPrevious(photo: Photo): Photo | undefined {
+    return this.previous.get(photo.key);
+  }
+
+  private getFrame(photo: Photo): Promise<Frame | null> {
+    let frame = this.frames.get(photo.key);
+    if (!frame) {
+      frame = this.loadFrame(photo);
+      this.frames.set(photo.key, frame);
+
+      if (this.frames.size > this.MAX_FRAMES) {
+        this.frames.delete(this.frames.keys().next().value!);
+      }
+    }
+    return frame;
+  }
+
+  private async loadFrame(photo: Photo): Promise<Frame | null> {
+    try {
+      const response = await fetch(await this.store.getUrl(photo.key));
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const image = await createImageBitmap(await response.blob());
+      const { width, height } = getGridSize(image.width, image.height);
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      context?.drawImage(image, 0, 0, width, height);
+      image.close();
+      return context ? toFrame(context.getImageData(0, 0, width, height).data, width, height) : null;
+    } catch (error) {
+      console.warn('Error loading frame', photo.key, ':', error);
+      this.frames.delete(photo.key); // Tried again next time
+      return null;
+    }
+  }
+}
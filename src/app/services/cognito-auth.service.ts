@@ -1,6 +1,6 @@
 import { EventEmitter, Injectable } from '@angular/core';
 import { fromCognitoIdentityPool } from '@aws-sdk/credential-providers';
-import { AwsCredentialIdentity } from '@aws-sdk/types';
+import { AwsCredentialIdentity, AwsCredentialIdentityProvider } from '@aws-sdk/types';
 import { AuthService } from './auth.service';
 import { environment } from '../../environments/environment';
 import { BehaviorSubject, Observable, Subject, Subscription, takeUntil, timer } from 'rxjs';
@@ -10,21 +10,47 @@ import { BehaviorSubject, Observable, Subject, Subscription, takeUntil, timer }
 })
 export class CognitoAuthService {
   private cachedCredentials: AwsCredentialIdentity | null = null;
+  private pendingCredentials: Promise<AwsCredentialIdentity> | null = null; // Fetch shared by concurrent callers
+  private readonly REFRESH_MARGIN_MS = 5 * 60 * 1000; // Refresh credentials this long before they expire
+
+  /**
+   * Credential provider for AWS SDK clients, so a long-lived client always signs with fresh credentials
+   */
+  readonly credentialProvider: AwsCredentialIdentityProvider = () => this.getAwsCredentials();
 
   constructor(private authService: AuthService) { }
 
   /**
    * Gets AWS credentials from Cognito Identity Pool using the Google OIDC token
+   * Cached credentials are refreshed shortly before they expire (not after requests started failing)
+   * @param forceRefresh Ignore cached credentials (e.g. after they were rejected)
    * @returns Promise of AWS credentials
    */
-  async getAwsCredentials(): Promise<AwsCredentialIdentity> {
+  async getAwsCredentials(forceRefresh = false): Promise<AwsCredentialIdentity> {
     const now = Date.now();
 
-    // If we have cached credentials that are still valid, return them
-    if (this.cachedCredentials && ((this.cachedCredentials.expiration?.getTime() ?? now) >= now)) {
+    // If we have cached credentials that are still valid for a while, return them
+    if (!forceRefresh && this.cachedCredentials &&
+        ((this.cachedCredentials.expiration?.getTime() ?? Infinity) - this.REFRESH_MARGIN_MS > now)) {
       return this.cachedCredentials;
     }
 
+    if (!this.pendingCredentials) {
+      this.pendingCredentials = this.fetchCredentials().finally(() => {
+        this.pendingCredentials = null;
+      });
+    }
+    return await this.pendingCredentials;
+  }
+
+  /**
+   * Clears cached credentials (useful when logging out)
+   */
+  clearCredentials(): void {
+    this.cachedCredentials = null;
+  }
+
+  private async fetchCredentials(): Promise<AwsCredentialIdentity> {
     // Get the Google ID token from the auth service
     const idToken = this.authService.getIdToken();
 
@@ -36,26 +62,19 @@ export class CognitoAuthService {
       throw new Error('Cognito Identity Pool ID not configured in environment.');
     }
 
-      // Create credential provider using Cognito Identity Pool
-      const credentialProvider = fromCognitoIdentityPool({
-        clientConfig: { region: environment.aws.region },
-        identityPoolId: environment.cognito.identityPoolId,
-        logins: {
-          'accounts.google.com': idToken
-        }
-      });
-
-      // Get credentials
-      this.cachedCredentials = await credentialProvider();
-      console.log('Cognito:', this.cachedCredentials);
+    // Create credential provider using Cognito Identity Pool
+    const credentialProvider = fromCognitoIdentityPool({
+      clientConfig: { region: environment.aws.region },
+      identityPoolId: environment.cognito.identityPoolId,
+      logins: {
+        'accounts.google.com': idToken
+      }
+    });
 
-      return this.cachedCredentials;
-  }
+    // Get credentials
+    this.cachedCredentials = await credentialProvider();
+    console.log('Cognito: credentials valid until', this.cachedCredentials.expiration);
 
-  /**
-   * Clears cached credentials (useful when logging out)
-   */
-  clearCredentials(): void {
-    this.cachedCredentials = null;
+    return this.cachedCredentials;
   }
 }
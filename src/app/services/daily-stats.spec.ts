@@ -0,0 +1,70 @@
+import { PhotoMetadata } from './metadata.service';
+import { computePeriodStats, getPeriodStart } from './daily-stats';
+import { presenceSample } from './testing/presence-sample';
+
+describe('computePeriodStats', () => {
+  // Monday 27 October 2025, local time
+  const at = (day: number, hours: number, minutes = 0) => new Date(2025, 9, day, hours, minutes);
+
+  const sample = (timestamp: Date, metadata: Partial<PhotoMetadata>, deviceId?: string) =>
+    presenceSample(timestamp, { seconds_since_last_motion: 5000, presence_timeout_seconds: 600, ...metadata }, deviceId);
+
+  it('should start weeks on Monday', () => {
+    expect(getPeriodStart(new Date(2025, 10, 2, 12), 'week')).toEqual(at(27, 0)); // Sunday 2 November
+    expect(getPeriodStart(at(27, 0), 'week')).toEqual(at(27, 0));
+    expect(getPeriodStart(at(29, 23, 59), 'day')).toEqual(at(29, 0));
+  });
+
+  it('should include days without photos', () => {
+    const stats = computePeriodStats([], [], 'day', at(27, 0), at(29, 23, 59));
+
+    expect(stats.map(period => period.start)).toEqual([at(27, 0), at(28, 0), at(29, 0)]);
+    expect(stats[0].temperature).toBeNull();
+  });
+
+  it('should summarize readings, visits, blanket time and reboots per day', () => {
+    const samples = [
+      sample(at(27, 10, 0), { temperature_celsius: 20, humidity_percent: 40, blanket_on: true, uptime_seconds: 600 }),
+      sample(at(27, 10, 10), { temperature_celsius: 22, humidity_percent: 50, blanket_on: true, uptime_seconds: 1200, seconds_since_last_motion: 60 }),
+      sample(at(27, 10, 20), { temperature_celsius: 24, humidity_percent: 60, blanket_on: false, uptime_seconds: 30, seconds_since_last_motion: 300 }),
+      sample(at(27, 10, 30), { temperature_celsius: 24, humidity_percent: 60, blanket_on: true, uptime_seconds: 630 }),
+      sample(at(28, 9, 0), { temperature_celsius: 18, humidity_percent: 55, blanket_on: false, uptime_seconds: 60000 })
+    ];
+    const photos = [...samples.map(s => s.photo), { key: 'porch/clip', timestamp: at(27, 11), deviceId: 'porch' }];
+
+    const [monday, tuesday] = computePeriodStats(photos, samples, 'day', at(27, 0), at(28, 23, 59));
+
+    expect(monday.photoCount).toEqual(5);
+    expect(monday.temperature).toEqual({ min: 20, avg: 22.5, max: 24 });
+    expect(monday.humidity?.max).toEqual(60);
+    expect(monday.visitCount).toEqual(1);
+    expect(monday.catSeconds).toEqual(360);
+    expect(monday.rebootCount).toEqual(1);
+    // 10:00-10:20 on, 10:20-10:30 off, 10:30 until the next day's photo is a gap
+    expect(monday.blanketOnSeconds).toEqual(20 * 60);
+    expect(monday.blanketKnownSeconds).toEqual(30 * 60);
+    expect(monday.temperatureTrend[10]).toEqual(22.5);
+    expect(tuesday.photoCount).toEqual(1);
+    expect(tuesday.visitCount).toEqual(0);
+  });
+
+  it('should split months at the first of the month', () => {
+    const stats = computePeriodStats([], [], 'month', new Date(2025, 9, 20), new Date(2025, 10, 3));
+
+    expect(stats.map(period => period.start)).toEqual([new Date(2025, 9, 1), new Date(2025, 10, 1)]);
+    expect(stats[0].end).toEqual(new Date(2025, 10, 1));
+  });
+
+  it('should sum all cameras per week', () => {
+    const samples = [
+      sample(at(27, 10), { temperature_celsius: 20 }, 'porch'),
+      sample(at(30, 10), { temperature_celsius: 10 }, 'garage')
+    ];
+
+    const stats = computePeriodStats(samples.map(s => s.photo), samples, 'week', at(27, 0), at(30, 23, 59));
+
+    expect(stats.length).toEqual(1);
+    expect(stats[0].photoCount).toEqual(2);
+    expect(stats[0].temperature?.avg).toEqual(15);
+  });
+});
@@ -0,0 +1,153 @@
+import { toSensorSeries } from './sensor-series';
+import { getBlanketIntervals } from './blanket-energy';
+import { PresenceSample, VisitPhoto, segmentVisits } from './visit-segmentation';
+
+export type StatsPeriod = 'day' | 'week' | 'month';
+
+export interface MinAvgMax {
+  min: number;
+  avg: number;
+  max: number;
+}
+
+/**
+ * Summary of one local day, week (starting on Monday) or month
+ */
+export interface PeriodStats {
+  start: Date; // Local midnight
+  end: Date; // Start of the next period
+  photoCount: number;
+  visitCount: number; // Visits that started in the period
+  catSeconds: number; // Total duration of those visits
+  temperature: MinAvgMax | null;
+  humidity: MinAvgMax | null;
+  blanketOnSeconds: number;
+  blanketKnownSeconds: number; // Time with a known blanket state (camera gaps excluded), for the duty cycle
+  rebootCount: number;
+  temperatureTrend: (number | null)[]; // Average temperature per slice of the period, for sparklines
+}
+
+const TREND_SLICES = 24;
+
+/**
+ * Start of the local day, week (Monday) or month containing a date
+ */
+export function getPeriodStart(date: Date, period: StatsPeriod): Date {
+  if (period === 'month') {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (period === 'week') {
+    start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+  }
+  return start;
+}
+
+/**
+ * Summarize photos per day, week or month, including periods without any photo
+ * Cat time and visits come from the visit segmentation, reboots from uptime drops, and blanket
+ * on-time from the blanket intervals between a camera's consecutive photos
+ * @param photos All photos in the range (counted even without metadata)
+ * @param samples Photos with their metadata
+ * @returns Periods overlapping [start, end], oldest first
+ */
+export function computePeriodStats<T extends VisitPhoto>(
+  photos: VisitPhoto[],
+  samples: PresenceSample<T>[],
+  period: StatsPeriod,
+  start: Date,
+  end: Date
+): PeriodStats[] {
+  const periods: PeriodStats[] = [];
+  for (let periodStart = getPeriodStart(start, period); periodStart <= end;) {
+    const periodEnd = new Date(periodStart);
+    if (period === 'month') {
+      periodEnd.setMonth(periodEnd.getMonth() + 1);
+    } else {
+      periodEnd.setDate(periodEnd.getDate() + (period === 'week' ? 7 : 1));
+    }
+    periods.push(emptyPeriod(periodStart, periodEnd));
+    periodStart = periodEnd;
+  }
+
+  const find = (date: Date) => periods.find(stats => date >= stats.start && date < stats.end);
+
+  for (const photo of photos) {
+    const stats = find(photo.timestamp);
+    if (stats) stats.photoCount++;
+  }
+
+  for (const visit of segmentVisits(samples)) {
+    const stats = find(visit.arrival);
+    if (stats) {
+      stats.visitCount++;
+      stats.catSeconds += visit.durationSeconds;
+    }
+  }
+
+  const points = toSensorSeries(samples);
+
+  for (const interval of getBlanketIntervals(points)) {
+    const stats = find(interval.start);
+    if (stats) {
+      stats.blanketKnownSeconds += interval.seconds;
+      if (interval.on) stats.blanketOnSeconds += interval.seconds;
+    }
+  }
+
+  const readings = new Map<PeriodStats, { temperatures: number[], humidities: number[], slices: number[][] }>();
+
+  for (const point of points) {
+    const stats = find(point.timestamp);
+    if (!stats) continue;
+
+    if (point.isReboot) stats.rebootCount++;
+
+    const values = readings.get(stats) ?? { temperatures: [], humidities: [], slices: stats.temperatureTrend.map(() => []) };
+    readings.set(stats, values);
+
+    if (typeof point.temperature === 'number') {
+      values.temperatures.push(point.temperature);
+      const slice = Math.floor((point.timestamp.getTime() - stats.start.getTime()) /
+        (stats.end.getTime() - stats.start.getTime()) * TREND_SLICES);
+      values.slices[slice].push(point.temperature);
+    }
+    if (typeof point.humidity === 'number') {
+      values.humidities.push(point.humidity);
+    }
+  }
+
+  for (const [stats, values] of readings) {
+    stats.temperature = getMinAvgMax(values.temperatures);
+    stats.humidity = getMinAvgMax(values.humidities);
+    stats.temperatureTrend = values.slices.map(slice => getMinAvgMax(slice)?.avg ?? null);
+  }
+
+  return periods;
+}
+
+function emptyPeriod(start: Date, end: Date): PeriodStats {
+  return {
+    start,
+    end,
+    photoCount: 0,
+    visitCount: 0,
+    catSeconds: 0,
+    temperature: null,
+    humidity: null,
+    blanketOnSeconds: 0,
+    blanketKnownSeconds: 0,
+    rebootCount: 0,
+    temperatureTrend: new Array(TREND_SLICES).fill(null)
+  };
+}
+
+function getMinAvgMax(values: number[]): MinAvgMax | null {
+  if (values.length === 0) return null;
+  return {
+    min: Math.min(...values),
+    avg: values.reduce((sum, value) => sum + value, 0) / values.length,
+    max: Math.max(...values)
+  };
+}
@@ -0,0 +1,59 @@
+import { PhotoMetadata } from './metadata.service';
+import { getDeviceHealth, getFailureIntervals, getHeapTrend, HealthPoint } from './device-health';
+import { presenceSample } from './testing/presence-sample';
+
+describe('device health', () => {
+  const time = (hours: number) => new Date(Date.UTC(2025, 9, 30, hours));
+
+  const sample = (hours: number, metadata: Partial<PhotoMetadata>, deviceId?: string) => presenceSample(time(hours), metadata, deviceId);
+
+  it('should list reboots with the uptime lost, per camera', () => {
+    const [porch, garage] = getDeviceHealth([
+      sample(1, { uptime_seconds: 3600 }),
+      sample(2, { uptime_seconds: 7200 }),
+      sample(3, { uptime_seconds: 60, boot_attempts: 2 }),
+      sample(2.5, { uptime_seconds: 10 }, 'garage')
+    ]);
+
+    expect(porch.reboots.length).toEqual(1);
+    expect(porch.reboots[0].previousUptimeSeconds).toEqual(7200);
+    expect(porch.reboots[0].bootTime).toEqual(new Date(time(3).getTime() - 60000));
+    expect(porch.reboots[0].bootAttempts).toEqual(2);
+    expect(porch.latest.timestamp).toEqual(time(3));
+    expect(garage.reboots.length).toEqual(0);
+  });
+
+  it('should read the firmware health fields', () => {
+    const [porch] = getDeviceHealth([
+      sample(1, { heap_free_bytes: 190052, chip_temperature: 51.1, mode: 'NORMAL', dht22_sensor_working: false })
+    ]);
+
+    expect(porch.latest.freeHeap).toEqual(190052);
+    expect(porch.latest.chipTemperature).toEqual(51.1);
+    expect(porch.latest.mode).toEqual('NORMAL');
+    expect(porch.failures.map(failure => failure.flag)).toEqual(['sensorWorking']);
+  });
+
+  it('should close failure intervals at the first photo without the failure', () => {
+    const point = (hours: number, cameraAvailable?: boolean): HealthPoint => ({ timestamp: time(hours), cameraAvailable });
+    const intervals = getFailureIntervals([
+      point(1, true), point(2, false), point(3), point(4, false), point(5, true), point(6, false)
+    ], 'cameraAvailable');
+
+    expect(intervals).toEqual([
+      { flag: 'cameraAvailable', start: time(2), end: time(5), ongoing: false },
+      { flag: 'cameraAvailable', start: time(6), end: time(6), ongoing: true }
+    ]);
+  });
+
+  it('should measure the free heap trend since the last reboot', () => {
+    const points: HealthPoint[] = [
+      { timestamp: time(0), freeHeap: 100000 },
+      { timestamp: time(1), freeHeap: 50000, isReboot: true },
+      ...[2, 3, 4, 5, 6].map(hours => ({ timestamp: time(hours), freeHeap: 50000 - (hours - 1) * 2000 }))
+    ];
+
+    expect(getHeapTrend(points)).toBeCloseTo(-2000);
+    expect(getHeapTrend(points.slice(0, 4))).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+import { PhotoMetadata } from './metadata.service';
+import { SensorDataPoint, markReboots, toSensorDataPoint } from './sensor-series';
+import { PresenceSample, VisitPhoto } from './visit-segmentation';
+
+/**
+ * Firmware health readings of one photo
+ */
+export interface HealthPoint extends SensorDataPoint {
+  freeHeap?: number;
+  minFreeHeap?: number;
+  heapSize?: number;
+  freePsram?: number;
+  psramSize?: number;
+  chipTemperature?: number;
+  mode?: string;
+  maxBootAttempts?: number;
+  wifiConnected?: boolean;
+  cameraAvailable?: boolean;
+  sensorWorking?: boolean;
+}
+
+export type HealthFlag = 'cameraAvailable' | 'sensorWorking' | 'wifiConnected';
+
+/**
+ * Time a camera reported a failing component, from the first photo reporting it to the first photo without it
+ */
+export interface FailureInterval {
+  flag: HealthFlag;
+  start: Date;
+  end: Date; // Recovery photo, or the last photo still reporting the failure while ongoing
+  ongoing: boolean;
+}
+
+export interface RebootEvent {
+  timestamp: Date; // First photo after the reboot
+  bootTime: Date; // Estimated from that photo's uptime
+  previousUptimeSeconds: number; // Uptime at the last photo before the reboot
+  bootAttempts?: number;
+}
+
+/**
+ * Health summary of one camera over the loaded range
+ */
+export interface DeviceHealth {
+  deviceId: string;
+  latest: HealthPoint;
+  points: HealthPoint[]; // Oldest first
+  reboots: RebootEvent[];
+  failures: FailureInterval[];
+  heapTrendBytesPerHour: number | null; // Free heap trend since the last reboot
+}
+
+// Free heap shrinking faster than this since the last reboot looks like a leak
+export const LEAK_WARNING_BYTES_PER_HOUR = 1024;
+const MIN_TREND_POINTS = 6;
+const MIN_TREND_SECONDS = 2 * 60 * 60;
+
+const HEALTH_FLAGS: HealthFlag[] = ['cameraAvailable', 'sensorWorking', 'wifiConnected'];
+
+/**
+ * Build a photo's health point from its metadata
+ */
+export function toHealthPoint(photo: VisitPhoto, metadata: PhotoMetadata): HealthPoint {
+  return {
+    ...toSensorDataPoint(photo, metadata),
+    freeHeap: metadata.heap_free_bytes,
+    minFreeHeap: metadata.heap_min_free_bytes,
+    heapSize: metadata.heap_size_bytes,
+    freePsram: metadata.psram_free_bytes,
+    psramSize: metadata.psram_size_bytes,
+    chipTemperature: metadata.chip_temperature,
+    mode: metadata.mode,
+    maxBootAttempts: metadata.max_boot_attempts,
+    wifiConnected: metadata.wifi_connected,
+    cameraAvailable: metadata.camera_available,
+    sensorWorking: metadata.dht22_sensor_working
+  };
+}
+
+/**
+ * Health of each camera, reboots flagged from uptime drops like the sensor graphs
+ * @returns One summary per camera with data
+ */
+export function getDeviceHealth<T extends VisitPhoto>(samples: PresenceSample<T>[]): DeviceHealth[] {
+  const points = samples
+    .map(sample => toHealthPoint(sample.photo, sample.metadata))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  markReboots(points);
+
+  const byDevice = new Map<string, HealthPoint[]>();
+  for (const point of points) {
+    const devicePoints = byDevice.get(point.deviceId!) ?? [];
+    devicePoints.push(point);
+    byDevice.set(point.deviceId!, devicePoints);
+  }
+
+  return [...byDevice.entries()].map(([deviceId, points]) => ({
+    deviceId,
+    latest: points[points.length - 1],
+    points,
+    reboots: getReboots(points),
+    failures: HEALTH_FLAGS.flatMap(flag => getFailureIntervals(points, flag)),
+    heapTrendBytesPerHour: getHeapTrend(points)
+  }));
+}
+
+/**
+ * Reboots of one camera
+ * @param points One camera's points, oldest first, reboots flagged
+ */
+export function getReboots(points: HealthPoint[]): RebootEvent[] {
+  const reboots: RebootEvent[] = [];
+  let previousUptime: number | undefined;
+
+  for (const point of points) {
+    if (point.uptime === undefined) continue;
+
+    if (point.isReboot && previousUptime !== undefined) {
+      reboots.push({
+        timestamp: point.timestamp,
+        bootTime: new Date(point.timestamp.getTime() - point.uptime * 1000),
+        previousUptimeSeconds: previousUptime,
+        bootAttempts: point.bootAttempts
+      });
+    }
+    previousUptime = point.uptime;
+  }
+
+  return reboots;
+}
+
+/**
+ * Intervals where one camera reported a component as failing (photos not reporting the flag are skipped)
+ * @param points One camera's points, oldest first
+ */
+export function getFailureIntervals(points: HealthPoint[], flag: HealthFlag): FailureInterval[] {
+  const intervals: FailureInterval[] = [];
+  let open: FailureInterval | null = null;
+
+  for (const point of points) {
+    const working = point[flag];
+    if (working === undefined) continue;
+
+    if (!working) {
+      if (open) {
+        open.end = point.timestamp;
+      } else {
+        open = { flag, start: point.timestamp, end: point.timestamp, ongoing: true };
+      }
+    } else if (open) {
+      intervals.push({ ...open, end: point.timestamp, ongoing: false });
+      open = null;
+    }
+  }
+
+  if (open) {
+    intervals.push(open);
+  }
+
+  return intervals;
+}
+
+/**
+ * Least squares slope of the free heap since the last reboot, in bytes per hour
+ * @param points One camera's points, oldest first, reboots flagged
+ * @returns null without enough readings to tell
+ */
+export function getHeapTrend(points: HealthPoint[]): number | null {
+  let since = 0;
+  points.forEach((point, i) => {
+    if (point.isReboot) since = i;
+  });
+
+  const readings = points.slice(since).filter(point => point.freeHeap !== undefined);
+  if (readings.length < MIN_TREND_POINTS) return null;
+
+  const t0 = readings[0].timestamp.getTime();
+  const xs = readings.map(point => (point.timestamp.getTime() - t0) / 3_600_000);
+  const ys = readings.map(point => point.freeHeap!);
+  if (xs[xs.length - 1] * 3600 < MIN_TREND_SECONDS) return null;
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    variance += (x - meanX) ** 2;
+  });
+
+  return variance > 0 ? covariance / variance : null;
+}
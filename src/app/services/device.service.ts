@@ -0,0 +1,74 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { PhotoKeySchemeConfig } from './photo-key.service';
+
+export const ALL_DEVICES = 'all';
+
+const STORAGE_KEY = 'device-service';
+
+/**
+ * A camera writing photos to its own folder of the photo store
+ */
+export interface Device {
+  id: string;
+  name: string;
+  folder?: string; // Folder in the photo store (default: the store's configured folder)
+  rotation?: number; // Default rotation in degrees for this camera's photos
+  brightnessLevel?: number; // Default brightness level (1-5) for this camera's photos
+  keyScheme?: PhotoKeySchemeConfig; // File naming scheme (default: the configured photoKeys scheme)
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DeviceService {
+  public readonly devices: Device[];
+
+  // Selected device id, or ALL_DEVICES for the combined timeline
+  public selectedDeviceId$: BehaviorSubject<string>;
+
+  constructor() {
+    const configured: Device[] = environment.devices;
+
+    // No registry configured: single camera in the store's default folder
+    this.devices = configured.length > 0
+      ? configured
+      : [{ id: 'default', name: 'Camera' }];
+
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const initialId = saved && (saved === ALL_DEVICES || this.getDevice(saved))
+      ? saved
+      : this.devices[0].id;
+
+    this.selectedDeviceId$ = new BehaviorSubject<string>(initialId);
+
+    this.selectedDeviceId$.subscribe(id => {
+      localStorage.setItem(STORAGE_KEY, id);
+    });
+  }
+
+  /**
+   * True when more than one camera is registered (device switcher is shown)
+   */
+  get hasMultipleDevices(): boolean {
+    return this.devices.length > 1;
+  }
+
+  getDevice(id: string | undefined): Device | undefined {
+    return this.devices.find(device => device.id === id);
+  }
+
+  /**
+   * Devices whose photos are shown for the current selection
+   */
+  getActiveDevices(): Device[] {
+    const selectedId = this.selectedDeviceId$.getValue();
+    if (selectedId === ALL_DEVICES) {
+      return this.devices;
+    }
+
+    const device = this.getDevice(selectedId);
+    return device ? [device] : this.devices.slice(0, 1);
+  }
+}
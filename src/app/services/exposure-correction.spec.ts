@@ -0,0 +1,55 @@
+import { ImageQuality } from './photo-quality';
+import {
+  ExposureCorrection, MAX_BRIGHTNESS_GAIN, MAX_CONTRAST_GAIN, getHistogramCorrection, getLuminanceHistogram, getQualityCorrection
+} from './exposure-correction';
+
+describe('exposure correction', () => {
+  const quality = (changes: Partial<ImageQuality>): ImageQuality =>
+    ({ brightness: 110, contrast: 70, qualityScore: 60, sharpness: 90, ...changes });
+
+  // What "contrast(c) brightness(b)" makes of a luminance (0-1)
+  const apply = (correction: ExposureCorrection, value: number) =>
+    correction.brightness * (correction.contrast * (value - 0.5) + 0.5);
+
+  it('should leave well exposed photos alone', () => {
+    expect(getQualityCorrection(quality({}))).toEqual({ contrast: 1, brightness: 1 });
+  });
+
+  it('should brighten and stretch dark, flat photos up to the limits', () => {
+    expect(getQualityCorrection(quality({ brightness: 30, contrast: 20 })))
+      .toEqual({ contrast: MAX_CONTRAST_GAIN, brightness: MAX_BRIGHTNESS_GAIN });
+  });
+
+  it('should darken bright photos but not brighten blown out ones', () => {
+    expect(getQualityCorrection(quality({ brightness: 137.5 })).brightness).toBeCloseTo(0.8, 5);
+    expect(getQualityCorrection(quality({ brightness: 80, overexposure: 12 })).brightness).toEqual(1);
+  });
+
+  it('should count pixels by luminance', () => {
+    const histogram = getLuminanceHistogram(new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255, 0, 0, 0, 255]));
+
+    expect(histogram.length).toEqual(256);
+    expect(histogram[0]).toEqual(2);
+    expect(histogram[255]).toEqual(1);
+  });
+
+  it('should map the black and white points to the full range', () => {
+    const histogram = new Array<number>(256).fill(0);
+    histogram[20] = 500;
+    histogram[200] = 500;
+
+    const correction = getHistogramCorrection(histogram);
+
+    expect(apply(correction, 20 / 255)).toBeCloseTo(0, 5);
+    expect(apply(correction, 200 / 255)).toBeCloseTo(1, 5);
+  });
+
+  it('should limit the stretch of flat images', () => {
+    const histogram = new Array<number>(256).fill(0);
+    histogram[100] = 1000;
+
+    const correction = getHistogramCorrection(histogram);
+
+    expect(apply(correction, 110 / 255) - apply(correction, 100 / 255)).toBeCloseTo(MAX_BRIGHTNESS_GAIN * 10 / 255, 5);
+  });
+});
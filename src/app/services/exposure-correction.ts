@@ -0,0 +1,98 @@
+import { ImageQuality } from './photo-quality';
+
+/**
+ * CSS filter values brightening/stretching one photo, applied as "contrast() brightness()"
+ */
+export interface ExposureCorrection {
+  contrast: number;
+  brightness: number;
+}
+
+// Mean brightness (0-255) a corrected photo aims for
+export const TARGET_BRIGHTNESS = 110;
+// Contrast metric under which a photo is stretched
+export const TARGET_CONTRAST = 45;
+export const MAX_BRIGHTNESS_GAIN = 3; // Same as manual level 5
+export const MIN_BRIGHTNESS_GAIN = 0.7;
+export const MAX_CONTRAST_GAIN = 1.6;
+// Brightening a photo with more blown-out pixels than this (percent) would only blow out more
+const MAX_OVEREXPOSED_PERCENT = 5;
+// Darkest/brightest pixels (fraction) ignored by auto-levels, so a few hot pixels don't set the range
+const LEVELS_CLIP = 0.005;
+
+const NO_CORRECTION: ExposureCorrection = { contrast: 1, brightness: 1 };
+
+/**
+ * Manual brightness level: 1 = normal (1.0) ... 5 = very bright (3.0)
+ */
+export function getManualFilter(level: number | null): string {
+  const safeLevel = level ?? 3; // Default to 3 if null
+  return `brightness(${1.0 + (safeLevel - 1) * 0.5})`;
+}
+
+export function toCssFilter(correction: ExposureCorrection): string {
+  return `contrast(${correction.contrast.toFixed(2)}) brightness(${correction.brightness.toFixed(2)})`;
+}
+
+/**
+ * Correction from the firmware's quality metrics: scale the mean brightness to the target,
+ * stretch flat (foggy, night) photos, don't brighten photos that are already blown out
+ */
+export function getQualityCorrection(quality: ImageQuality): ExposureCorrection {
+  let brightness = clamp(TARGET_BRIGHTNESS / Math.max(quality.brightness, 1), MIN_BRIGHTNESS_GAIN, MAX_BRIGHTNESS_GAIN);
+  if (brightness > 1 && (quality.overexposure ?? 0) > MAX_OVEREXPOSED_PERCENT) {
+    brightness = 1;
+  }
+
+  const contrast = clamp(TARGET_CONTRAST / Math.max(quality.contrast, 1), 1, MAX_CONTRAST_GAIN);
+  return { contrast, brightness };
+}
+
+/**
+ * Luminance (Rec. 601) histogram of RGBA pixels, 256 bins
+ */
+export function getLuminanceHistogram(pixels: Uint8ClampedArray): number[] {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i + 3 < pixels.length; i += 4) {
+    histogram[Math.round(0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2])]++;
+  }
+  return histogram;
+}
+
+/**
+ * Auto-levels: map the histogram's black and white points to 0 and 255
+ * CSS has no levels filter, but contrast(c) then brightness(b) is the linear map
+ * x -> b * (c * (x - 0.5) + 0.5), which equals (x - black) * gain for c = 1 / (1 - 2 black), b = gain * (1 - 2 black)
+ */
+export function getHistogramCorrection(histogram: number[]): ExposureCorrection {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return NO_CORRECTION;
+
+  const black = getPercentile(histogram, total * LEVELS_CLIP);
+  const white = getPercentile(histogram, total * (1 - LEVELS_CLIP));
+
+  // Flat images would need huge gains: limit the stretch, and keep the black point in the darker half
+  const gain = 255 / Math.max(white - black, 255 / MAX_BRIGHTNESS_GAIN);
+  const blackLevel = Math.min(black / 255, 0.4);
+
+  return {
+    contrast: 1 / (1 - 2 * blackLevel),
+    brightness: gain * (1 - 2 * blackLevel)
+  };
+}
+
+/**
+ * Luminance below which the given number of pixels lie
+ */
+function getPercentile(histogram: number[], count: number): number {
+  let seen = 0;
+  for (let value = 0; value < histogram.length; value++) {
+    seen += histogram[value];
+    if (seen > count) return value;
+  }
+  return histogram.length - 1;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
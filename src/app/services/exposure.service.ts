@@ -0,0 +1,119 @@
+import { Injectable } from '@angular/core';
+import { Photo, PhotoService } from './photo.service';
+import { MetadataService } from './metadata.service';
+import { ActionConfigService } from './action-config.service';
+import {
+  ExposureCorrection, getHistogramCorrection, getLuminanceHistogram, getManualFilter, getQualityCorrection, toCssFilter
+} from './exposure-correction';
+
+/**
+ * Brightness of the shown photos: per-photo auto exposure, or the camera's manual brightness level
+ * Auto exposure uses the photo's quality metrics, else (viewer, timelapse) the histogram of its pixels
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ExposureService {
+  private corrections = new Map<string, ExposureCorrection | null>(); // From the metadata, null: no quality metrics
+  private measured = new Map<string, ExposureCorrection | null>(); // From the pixels, null: measuring failed
+  private pending = new Set<string>();
+
+  private readonly HISTOGRAM_SIZE = 64; // Photos are scaled down to this many pixels wide and high for the histogram
+
+  constructor(
+    private config: ActionConfigService,
+    private metadataService: MetadataService,
+    private photoService: PhotoService
+  ) { }
+
+  /**
+   * CSS filter for a photo or clip, shown with the manual level until its correction is known
+   * @param measureImage Without quality metrics, download the photo to measure its histogram
+   */
+  getFilter(photo: Photo, measureImage = false): string {
+    if (this.config.autoExposure$.getValue() && photo.mediaType === 'image') {
+      const correction = this.getCorrection(photo, measureImage);
+      if (correction) return toCssFilter(correction);
+    }
+    return getManualFilter(this.config.getBrightnessLevel(photo.deviceId));
+  }
+
+  /**
+   * Filter for a decoded photo (timelapse frames), measured from its pixels without quality metrics
+   */
+  getImageFilter(photo: Photo, image: ImageBitmap): string {
+    if (this.config.autoExposure$.getValue() && !photo.quality && !this.corrections.get(photo.key) && !this.measured.has(photo.key)) {
+      this.measured.set(photo.key, this.measure(image));
+    }
+    return this.getFilter(photo, true);
+  }
+
+  private getCorrection(photo: Photo, measureImage: boolean): ExposureCorrection | null {
+    if (photo.quality) return getQualityCorrection(photo.quality);
+
+    const correction = this.corrections.get(photo.key);
+    const measured = this.measured.get(photo.key);
+    if (correction || measured) return correction || measured!;
+
+    if (correction === undefined) {
+      this.run(photo.key, () => this.loadCorrection(photo));
+    } else if (measureImage && measured === undefined) {
+      this.run(`${photo.key}#pixels`, () => this.measurePhoto(photo));
+    }
+    return null;
+  }
+
+  private async loadCorrection(photo: Photo) {
+    try {
+      const quality = (await this.metadataService.getMetadata(photo.key))?.image_quality_metrics;
+      this.corrections.set(photo.key, quality ? getQualityCorrection(quality) : null);
+    } catch (error) {
+      console.warn('Error loading quality metrics for', photo.key, ':', error);
+      this.corrections.set(photo.key, null);
+    }
+  }
+
+  /**
+   * Download and decode the photo (fetched, so the canvas isn't tainted by a cross-origin image)
+   */
+  private async measurePhoto(photo: Photo) {
+    try {
+      const response = await fetch(await this.photoService.getPhotoUrl(photo));
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const image = await createImageBitmap(await response.blob());
+      this.measured.set(photo.key, this.measure(image));
+      image.close();
+    } catch (error) {
+      console.warn('Error measuring the exposure of', photo.key, ':', error);
+      this.measured.set(photo.key, null);
+    }
+  }
+
+  /**
+   * Run an analysis once at a time per key
+   */
+  private async run(key: string, analysis: () => Promise<void>) {
+    if (this.pending.has(key)) return;
+
+    this.pending.add(key);
+    try {
+      await analysis();
+    } finally {
+      this.pending.delete(key);
+    }
+  }
+
+  private measure(image: ImageBitmap): ExposureCorrection | null {
+    const canvas = document.createElement('canvas');
+    canvas.width = this.HISTOGRAM_SIZE;
+    canvas.height = this.HISTOGRAM_SIZE;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+
+    context.drawImage(image, 0, 0, this.HISTOGRAM_SIZE, this.HISTOGRAM_SIZE);
+    const pixels = context.getImageData(0, 0, this.HISTOGRAM_SIZE, this.HISTOGRAM_SIZE).data;
+    return getHistogramCorrection(getLuminanceHistogram(pixels));
+  }
+}
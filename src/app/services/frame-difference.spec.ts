@@ -0,0 +1,49 @@
+import { Frame, getFrameDifference, getGridSize, getHeatmapPixels, isSignificantChange, toFrame } from './frame-difference';
+
+describe('frame difference', () => {
+  function frame(values: number[], width = values.length): Frame {
+    return { width, height: values.length / width, luminance: Float32Array.from(values) };
+  }
+
+  it('should keep the photo aspect on the grid', () => {
+    expect(getGridSize(1600, 1200)).toEqual({ width: 64, height: 48 });
+  });
+
+  it('should convert RGBA pixels to luminance', () => {
+    const converted = toFrame(new Uint8ClampedArray([255, 255, 255, 255, 255, 0, 0, 255]), 2, 1);
+
+    expect(converted.luminance[0]).toBeCloseTo(255, 3);
+    expect(converted.luminance[1]).toBeCloseTo(76.245, 3);
+  });
+
+  it('should score the percent of changed pixels', () => {
+    const unchanged = [100, 100, 100, 100, 100, 100, 100];
+    const difference = getFrameDifference(frame([...unchanged, 100]), frame([...unchanged, 200]))!;
+
+    // The mean shift (12.5) is evened out first
+    expect(difference.score).toEqual(12.5);
+    expect(difference.changes[0]).toEqual(0);
+    expect(difference.changes[7]).toBeCloseTo(87.5 / 255, 5);
+  });
+
+  it('should ignore noise and a change of exposure', () => {
+    const previous = frame([50, 60, 70, 80, 90, 100, 110, 120]);
+    const current = frame([90, 100, 110, 120, 130, 140, 150, 165]);
+
+    const difference = getFrameDifference(previous, current)!;
+
+    expect(difference.score).toEqual(0);
+    expect(isSignificantChange(difference.score)).toBeFalse();
+  });
+
+  it('should not compare frames of different sizes', () => {
+    expect(getFrameDifference(frame([1, 2, 3, 4], 2), frame([1, 2, 3, 4], 4))).toBeNull();
+  });
+
+  it('should leave unchanged pixels transparent in the heatmap', () => {
+    const pixels = getHeatmapPixels({ width: 2, height: 1, changes: Float32Array.from([0, 1]), score: 50 });
+
+    expect(Array.from(pixels.slice(0, 4))).toEqual([0, 0, 0, 0]);
+    expect(Array.from(pixels.slice(4))).toEqual([255, 220, 0, 230]);
+  });
+});
@@ -0,0 +1,99 @@
+// Frames are compared scaled down to this many pixels wide (height keeps the photo's aspect)
+export const CHANGE_GRID_WIDTH = 64;
+// Luminance difference (0-255) under which a pixel counts as unchanged (sensor noise, JPEG artifacts)
+export const PIXEL_CHANGE_THRESHOLD = 24;
+// Percent of changed pixels from which a photo shows significant change
+export const SIGNIFICANT_CHANGE_PERCENT = 1.5;
+
+/**
+ * A photo scaled down to the comparison grid, as luminance (0-255) per pixel
+ */
+export interface Frame {
+  width: number;
+  height: number;
+  luminance: Float32Array;
+}
+
+/**
+ * Where and how much a frame changed since the previous one
+ */
+export interface FrameDifference {
+  width: number;
+  height: number;
+  changes: Float32Array; // Per pixel 0 (unchanged) to 1 (black to white)
+  score: number; // Percent of changed pixels
+}
+
+export function getGridSize(imageWidth: number, imageHeight: number): { width: number, height: number } {
+  return {
+    width: CHANGE_GRID_WIDTH,
+    height: Math.max(1, Math.round(CHANGE_GRID_WIDTH * imageHeight / imageWidth))
+  };
+}
+
+/**
+ * Frame from RGBA pixels (Rec. 601 luminance)
+ */
+export function toFrame(pixels: Uint8ClampedArray, width: number, height: number): Frame {
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+  }
+  return { width, height, luminance };
+}
+
+/**
+ * Pixel difference of two frames of one camera
+ * The frames' mean brightness is evened out first, so the camera's exposure changing (dusk, clouds)
+ * doesn't count as change
+ * @returns null when the frames differ in size (resolution changed)
+ */
+export function getFrameDifference(previous: Frame, current: Frame): FrameDifference | null {
+  if (previous.width !== current.width || previous.height !== current.height) return null;
+
+  const count = current.luminance.length;
+  const offset = getMean(current.luminance) - getMean(previous.luminance);
+  const changes = new Float32Array(count);
+  let changed = 0;
+
+  for (let i = 0; i < count; i++) {
+    const difference = Math.abs(current.luminance[i] - previous.luminance[i] - offset);
+    if (difference >= PIXEL_CHANGE_THRESHOLD) {
+      changes[i] = Math.min(1, difference / 255);
+      changed++;
+    }
+  }
+
+  return { width: current.width, height: current.height, changes, score: count > 0 ? changed / count * 100 : 0 };
+}
+
+export function isSignificantChange(score: number): boolean {
+  return score >= SIGNIFICANT_CHANGE_PERCENT;
+}
+
+/**
+ * RGBA pixels of a heatmap of the changes: transparent where unchanged, red to yellow with the amount of change
+ */
+export function getHeatmapPixels(difference: FrameDifference): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(difference.changes.length * 4);
+
+  difference.changes.forEach((change, i) => {
+    if (change === 0) return;
+
+    const strength = Math.min(1, change * 3);
+    pixels[i * 4] = 255;
+    pixels[i * 4 + 1] = Math.round(220 * strength);
+    pixels[i * 4 + 2] = 0;
+    pixels[i * 4 + 3] = Math.round(90 + 140 * strength);
+  });
+
+  return pixels;
+}
+
+function getMean(values: Float32Array): number {
+  let sum = 0;
+  for (const value of values) {
+    sum += value;
+  }
+  return values.length > 0 ? sum / values.length : 0;
+}
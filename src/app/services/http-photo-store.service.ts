@@ -0,0 +1,171 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { PhotoStore, StoredObject, StoredObjectPage } from './photo-store';
+
+/**
+ * Entry of an nginx "autoindex_format json" listing
+ */
+interface AutoIndexEntry {
+  name: string;
+  type: string; // "file" or "directory"
+  size?: number;
+  mtime?: string;
+}
+
+/**
+ * PhotoStore reading a plain HTTP static file server (NAS copy of the bucket, local dev server...)
+ * The base URL must point to a directory with the same cat_YYYYMMDD_HHMMSS.jpg/.json layout
+ * and directory listing enabled (nginx/Apache autoindex, python -m http.server, npx http-server...)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HttpPhotoStore implements PhotoStore {
+  readonly writable = false; // Static file servers are read-only
+  readonly requestStats$ = null; // Requests go through HttpClient and aren't counted
+  private baseUrl: string;
+  private listingCache = new Map<string, { objects: StoredObject[], expires: number }>(); // By directory
+  private readonly LISTING_CACHE_MS = 30000; // Listing is shared by all prefixes of a single load
+
+  constructor(private http: HttpClient) {
+    const baseUrl = environment.storage.httpBaseUrl;
+
+    if (!baseUrl) {
+      throw new Error(
+        'Storage base URL is required for the http backend. Please configure STORAGE_HTTP_BASE_URL in your .env file.'
+      );
+    }
+
+    this.baseUrl = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  }
+
+  resolveKey(name: string, folder?: string): string {
+    return folder ? `${folder}/${name}` : name;
+  }
+
+  async list(
+    prefix = '', maxKeys?: number, continuationToken?: string, folder = '', signal?: AbortSignal
+  ): Promise<StoredObjectPage> {
+    // Prefixes of date-partitioned layouts (e.g. "2025/10/30/") point into sub directories
+    const directory = (folder ? `${folder}/` : '') + prefix.substring(0, prefix.lastIndexOf('/') + 1);
+    const allObjects = await this.getListing(directory);
+    // The fetched listing is cached for other callers, so only this caller's result is dropped
+    signal?.throwIfAborted();
+    const keyPrefix = (folder ? `${folder}/` : '') + prefix;
+    const matching = allObjects.filter(obj => obj.key.startsWith(keyPrefix));
+
+    // Continuation token is simply the offset into the (sorted) listing
+    const offset = continuationToken ? parseInt(continuationToken, 10) : 0;
+    const end = maxKeys ? offset + maxKeys : matching.length;
+
+    return {
+      objects: matching.slice(offset, end),
+      continuationToken: end < matching.length ? end.toString() : undefined
+    };
+  }
+
+  async getUrl(key: string): Promise<string> {
+    return this.baseUrl + encodeURI(key);
+  }
+
+  async getText(key: string): Promise<string | undefined> {
+    try {
+      return await firstValueFrom(this.http.get(this.baseUrl + encodeURI(key), { responseType: 'text' }));
+    } catch (error) {
+      if (error instanceof HttpErrorResponse && error.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async putText(key: string): Promise<void> {
+    throw new Error(`Cannot write ${key}: the http photo store is read-only.`);
+  }
+
+  async copy(sourceKey: string): Promise<void> {
+    throw new Error(`Cannot copy ${sourceKey}: the http photo store is read-only.`);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    throw new Error(`Cannot delete ${keys.length} object(s): the http photo store is read-only.`);
+  }
+
+  clearCaches(): void {
+    this.listingCache.clear();
+  }
+
+  resetRequestStats(): void {
+    // Nothing is counted
+  }
+
+  /**
+   * Fetch (or reuse) the listing of a directory below the base URL ('' or ending with '/')
+   * Keys of the listed objects include the directory (e.g. "porch/cat_20251030_123202.jpg")
+   */
+  private async getListing(directory: string): Promise<StoredObject[]> {
+    const now = Date.now();
+    const cached = this.listingCache.get(directory);
+    if (cached && cached.expires > now) {
+      return cached.objects;
+    }
+
+    let body: string;
+    try {
+      body = await firstValueFrom(this.http.get(this.baseUrl + encodeURI(directory), { responseType: 'text' }));
+    } catch (error) {
+      // Date-partitioned layouts have no directory for days without photos
+      if (error instanceof HttpErrorResponse && error.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+
+    const objects = this.parseListing(body).map(obj => ({ ...obj, key: directory + obj.key }));
+    objects.sort((a, b) => a.key.localeCompare(b.key));
+
+    this.listingCache.set(directory, { objects, expires: now + this.LISTING_CACHE_MS });
+    return objects;
+  }
+
+  /**
+   * Parse either a JSON autoindex (nginx) or an HTML page with links to the files
+   */
+  private parseListing(body: string): StoredObject[] {
+    const trimmed = body.trim();
+
+    if (trimmed.startsWith('[')) {
+      const entries: AutoIndexEntry[] = JSON.parse(trimmed);
+      return entries
+        .filter(entry => entry.type === 'file')
+        .map(entry => ({
+          key: entry.name,
+          size: entry.size,
+          lastModified: entry.mtime ? new Date(entry.mtime) : undefined
+        }));
+    }
+
+    const objects: StoredObject[] = [];
+    const seen = new Set<string>();
+    const linkPattern = /href="([^"?#]+)"/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = linkPattern.exec(body)) !== null) {
+      // Keep only plain file links, skip parent/sub directories and absolute links
+      const href = decodeURIComponent(match[1]);
+      if (href.endsWith('/') || href.includes(':') || href.startsWith('.')) {
+        continue;
+      }
+
+      const key = href.split('/').pop()!;
+      if (!seen.has(key)) {
+        seen.add(key);
+        objects.push({ key });
+      }
+    }
+
+    return objects;
+  }
+}
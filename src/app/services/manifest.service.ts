@@ -0,0 +1,129 @@
+import { Inject, Injectable } from '@angular/core';
+import { PHOTO_STORE, PhotoStore } from './photo-store';
+import { Device } from './device.service';
+import { PhotoMetadata } from './metadata.service';
+
+export const MANIFEST_VERSION = 1;
+
+/**
+ * Photo entry of a day manifest
+ */
+export interface ManifestEntry {
+  key: string;
+  size?: number;
+  metadata: PhotoMetadata | null; // Embedded .json sidecar (null when missing or malformed)
+}
+
+/**
+ * Per-day, per-camera index of photos with their metadata: manifest_YYYYMMDD.json
+ * Replaces the day listing plus one metadata GET per photo with a single request
+ */
+export interface DayManifest {
+  version: number;
+  date: string; // UTC day, YYYY-MM-DD
+  generated_at: string;
+  photos: ManifestEntry[];
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ManifestService {
+  // Manifests are only written once a day is over (plus a grace period for late uploads)
+  private readonly COMPLETED_DAY_GRACE_MS = 60 * 60 * 1000; // 1 hour
+
+  // Loaded manifests by key, null when the day has no manifest
+  private manifestCache = new Map<string, DayManifest | null>();
+
+  constructor(@Inject(PHOTO_STORE) private store: PhotoStore) { }
+
+  /**
+   * True when the backend can store manifests (the http backend is read-only)
+   */
+  get canBuildManifests(): boolean {
+    return this.store.writable;
+  }
+
+  /**
+   * True when no more photos are expected for the UTC day
+   */
+  isCompletedDay(day: Date): boolean {
+    const dayEnd = new Date(day);
+    dayEnd.setUTCHours(24, 0, 0, 0);
+    return dayEnd.getTime() + this.COMPLETED_DAY_GRACE_MS < Date.now();
+  }
+
+  /**
+   * Key of a camera's manifest for a UTC day (e.g. "folder/manifest_20251030.json")
+   */
+  getManifestKey(day: Date, device: Device): string {
+    const year = day.getUTCFullYear();
+    const month = String(day.getUTCMonth() + 1).padStart(2, '0');
+    const date = String(day.getUTCDate()).padStart(2, '0');
+    return this.store.resolveKey(`manifest_${year}${month}${date}.json`, device.folder);
+  }
+
+  /**
+   * Get a camera's manifest for a UTC day
+   * @returns The manifest, or null if the day has none (or it is unreadable)
+   */
+  async getManifest(day: Date, device: Device): Promise<DayManifest | null> {
+    const key = this.getManifestKey(day, device);
+
+    if (this.manifestCache.has(key)) {
+      return this.manifestCache.get(key)!;
+    }
+
+    let manifest: DayManifest | null = null;
+
+    try {
+      const bodyText = await this.store.getText(key);
+
+      if (bodyText) {
+        const parsed: DayManifest = JSON.parse(bodyText);
+
+        if (parsed.version === MANIFEST_VERSION && Array.isArray(parsed.photos)) {
+          manifest = parsed;
+        } else {
+          console.warn('Ignoring manifest with unsupported format:', key);
+        }
+      }
+    } catch (error) {
+      // Fall back to listing the day
+      console.error('Error loading manifest', key, ':', error);
+      return null;
+    }
+
+    this.manifestCache.set(key, manifest);
+    return manifest;
+  }
+
+  /**
+   * Write a camera's manifest for a completed UTC day
+   */
+  async saveManifest(day: Date, device: Device, photos: ManifestEntry[]): Promise<DayManifest> {
+    if (!this.isCompletedDay(day)) {
+      throw new Error('Manifests can only be built for completed days.');
+    }
+
+    const manifest: DayManifest = {
+      version: MANIFEST_VERSION,
+      date: day.toISOString().substring(0, 10),
+      generated_at: new Date().toISOString(),
+      photos
+    };
+
+    const key = this.getManifestKey(day, device);
+    await this.store.putText(key, JSON.stringify(manifest), 'application/json');
+    this.manifestCache.set(key, manifest);
+
+    return manifest;
+  }
+
+  /**
+   * Clear the manifest cache
+   */
+  clearCache() {
+    this.manifestCache.clear();
+  }
+}
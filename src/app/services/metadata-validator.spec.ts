@@ -0,0 +1,84 @@
+import { normalizeMetadata } from './metadata-validator';
+
+describe('normalizeMetadata', () => {
+  const current = {
+    timestamp: '2025-10-30T12:32:02Z',
+    uptime_seconds: 3600,
+    temperature_celsius: 21.5,
+    humidity_percent: 45,
+    cat_present: true,
+    seconds_since_last_motion: 12,
+    blanket_on: false,
+    boot_attempts: 1,
+    heap_free_bytes: 120000,
+    camera_config: { frame_size: 'UXGA', jpeg_quality: 12 }
+  };
+
+  it('should accept current firmware metadata without issues', () => {
+    const metadata = normalizeMetadata(current)!;
+
+    expect(metadata.issues).toBeUndefined();
+    expect(metadata.effective_temperature_celsius).toEqual(21.5);
+    expect(metadata.camera_config?.frame_size).toEqual('UXGA');
+  });
+
+  it('should convert string values and derive presence from motion', () => {
+    const metadata = normalizeMetadata({
+      timestamp: '2024-01-05T08:00:00Z',
+      uptime_seconds: '120',
+      temperature_celsius: '19.25',
+      humidity_percent: 60,
+      seconds_since_last_motion: 30,
+      blanket_on: 'true'
+    })!;
+
+    expect(metadata.uptime_seconds).toEqual(120);
+    expect(metadata.temperature_celsius).toEqual(19.25);
+    expect(metadata.blanket_on).toBeTrue();
+    expect(metadata.cat_present).toBeTrue(); // Derived from recent motion
+    expect(metadata.issues).toBeUndefined();
+  });
+
+  it('should report required fields under unknown names as missing', () => {
+    const metadata = normalizeMetadata({ ...current, temperature_celsius: undefined, temperature: 19 })!;
+
+    expect(metadata.temperature_celsius).toBeUndefined();
+    expect(metadata.issues?.map(issue => `${issue.field}:${issue.problem}`)).toEqual(['temperature_celsius:missing']);
+  });
+
+  it('should keep the memory fields under the names the firmware writes', () => {
+    const metadata = normalizeMetadata({ ...current, heap_min_free_bytes: '120176', psram_free_bytes: 1327071 })!;
+
+    expect(metadata.heap_free_bytes).toEqual(120000);
+    expect(metadata.heap_min_free_bytes).toEqual(120176);
+    expect(metadata.psram_free_bytes).toEqual(1327071);
+    expect(metadata.issues).toBeUndefined();
+  });
+
+  it('should keep the exposure and noise metrics of the raw quality metrics', () => {
+    const metadata = normalizeMetadata({
+      ...current,
+      image_quality_metrics: { brightness: 119.53, contrast: 73.37, qualityScore: 63.71, sharpness: 100, isDark: 0, underexposure: 4.4, noiseLevel: 'n/a' }
+    })!;
+
+    expect(metadata.image_quality_metrics?.underexposure).toEqual(4.4);
+    expect(metadata.image_quality_metrics?.isDark).toBeFalse();
+    expect(metadata.image_quality_metrics?.noiseLevel).toBeUndefined();
+  });
+
+  it('should report missing, invalid and out of range fields', () => {
+    const metadata = normalizeMetadata({ ...current, temperature_celsius: -999, humidity_percent: 'n/a', blanket_on: undefined })!;
+
+    expect(metadata.issues?.map(issue => `${issue.field}:${issue.problem}`)).toEqual([
+      'temperature_celsius:out_of_range',
+      'humidity_percent:invalid',
+      'blanket_on:missing'
+    ]);
+    expect(metadata.humidity_percent).toBeUndefined();
+  });
+
+  it('should reject sidecars that are not objects', () => {
+    expect(normalizeMetadata([1, 2])).toBeNull();
+    expect(normalizeMetadata('text')).toBeNull();
+  });
+});
@@ -0,0 +1,212 @@
+import { CameraConfig, PhotoMetadata } from './metadata.service';
+
+export type MetadataProblem = 'missing' | 'invalid' | 'out_of_range';
+
+/**
+ * Problem found in a photo's metadata
+ */
+export interface MetadataIssue {
+  field: string;
+  problem: MetadataProblem;
+  message: string; // Shown in the viewer
+}
+
+type FieldType = 'number' | 'boolean' | 'string';
+
+interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+  min?: number;
+  max?: number;
+}
+
+// Fields of the firmware's .json sidecar (ranges: DHT22 -40..80°C, ESP32 chip -40..125°C)
+const FIELD_RULES: Record<string, FieldRule> = {
+  timestamp: { type: 'string', required: true },
+  uptime_seconds: { type: 'number', required: true, min: 0 },
+  temperature_celsius: { type: 'number', required: true, min: -40, max: 80 },
+  humidity_percent: { type: 'number', required: true, min: 0, max: 100 },
+  cat_present: { type: 'boolean', required: true },
+  seconds_since_last_motion: { type: 'number', required: true, min: 0 },
+  presence_timeout_seconds: { type: 'number', min: 0 },
+  blanket_on: { type: 'boolean', required: true },
+  blanket_manual_override: { type: 'boolean' },
+  mode: { type: 'string' },
+  dht22_sensor_working: { type: 'boolean' },
+  chip_temperature: { type: 'number', min: -40, max: 125 },
+  wifi_connected: { type: 'boolean' },
+  camera_available: { type: 'boolean' },
+  boot_attempts: { type: 'number', min: 0 },
+  max_boot_attempts: { type: 'number', min: 0 },
+  effective_temperature_celsius: { type: 'number', min: -40, max: 80 },
+  expected_temperature_celsius: { type: 'number', min: -40, max: 80 },
+  using_fallback_temperature: { type: 'boolean' },
+  heap_free_bytes: { type: 'number', min: 0 },
+  heap_min_free_bytes: { type: 'number', min: 0 },
+  heap_size_bytes: { type: 'number', min: 0 },
+  psram_free_bytes: { type: 'number', min: 0 },
+  psram_size_bytes: { type: 'number', min: 0 },
+  next_scheduled_photo_minutes: { type: 'number', min: 0, max: 24 * 60 },
+  time_since_last_photo_minutes: { type: 'number', min: 0 }
+};
+
+const QUALITY_METRICS = ['brightness', 'contrast', 'qualityScore', 'sharpness'];
+// Written by newer firmware only: kept when valid, not required
+const OPTIONAL_QUALITY_METRICS: Record<string, FieldType> = {
+  underexposure: 'number',
+  overexposure: 'number',
+  noiseLevel: 'number',
+  isDark: 'boolean',
+  isBright: 'boolean'
+};
+
+// Older firmware derived presence from motion only: cat present if it moved in the last 5 minutes
+const CAT_PRESENT_MOTION_SECONDS = 300;
+
+/**
+ * Validate and normalize a parsed metadata sidecar
+ * - converts values written as strings ("21.5", "true")
+ * - fills fields older firmware did not write when they can be derived
+ * - lists missing, malformed and out of range fields in metadata.issues (malformed values are dropped)
+ * @returns null when the sidecar is not a JSON object
+ */
+export function normalizeMetadata(raw: unknown): PhotoMetadata | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return null;
+  }
+
+  const metadata: Record<string, unknown> = { ...(raw as Record<string, unknown>) };
+  const issues: MetadataIssue[] = [];
+
+  for (const [field, rule] of Object.entries(FIELD_RULES)) {
+    const value = metadata[field];
+    if (value === undefined || value === null) {
+      delete metadata[field];
+      continue;
+    }
+
+    const converted = convert(value, rule.type);
+    if (converted === undefined) {
+      issues.push({ field, problem: 'invalid', message: `valoare invalidă: ${JSON.stringify(value)}` });
+      delete metadata[field];
+      continue;
+    }
+
+    metadata[field] = converted;
+
+    if (typeof converted === 'number' &&
+        ((rule.min !== undefined && converted < rule.min) || (rule.max !== undefined && converted > rule.max))) {
+      issues.push({
+        field,
+        problem: 'out_of_range',
+        message: `în afara intervalului [${rule.min ?? '-∞'}, ${rule.max ?? '∞'}]: ${converted}`
+      });
+    }
+  }
+
+  deriveMissingFields(metadata);
+  normalizeNested(metadata, issues);
+
+  for (const [field, rule] of Object.entries(FIELD_RULES)) {
+    if (rule.required && metadata[field] === undefined && !issues.some(issue => issue.field === field)) {
+      issues.push({ field, problem: 'missing', message: 'lipsește' });
+    }
+  }
+
+  // Issues of a previous validation (e.g. cached or embedded in a manifest) are replaced
+  delete metadata['issues'];
+  if (issues.length > 0) {
+    metadata['issues'] = issues;
+  }
+
+  return metadata as unknown as PhotoMetadata;
+}
+
+/**
+ * Convert a value to the field's type, undefined when it can't be
+ */
+function convert(value: unknown, type: FieldType): string | number | boolean | undefined {
+  switch (type) {
+    case 'number':
+      if (typeof value === 'number') return isFinite(value) ? value : undefined;
+      if (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value))) return Number(value);
+      return undefined;
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 1 || value === 'true' || value === '1') return true;
+      if (value === 0 || value === 'false' || value === '0') return false;
+      return undefined;
+    case 'string':
+      return typeof value === 'string' ? value : undefined;
+  }
+}
+
+/**
+ * Fill fields older firmware versions did not write
+ */
+function deriveMissingFields(metadata: Record<string, unknown>) {
+  const motionSeconds = metadata['seconds_since_last_motion'];
+  if (metadata['cat_present'] === undefined && typeof motionSeconds === 'number') {
+    metadata['cat_present'] = motionSeconds < CAT_PRESENT_MOTION_SECONDS;
+  }
+
+  if (metadata['using_fallback_temperature'] === undefined && metadata['expected_temperature_celsius'] === undefined) {
+    metadata['using_fallback_temperature'] = false;
+  }
+
+  if (metadata['effective_temperature_celsius'] === undefined) {
+    metadata['effective_temperature_celsius'] = metadata['using_fallback_temperature']
+      ? metadata['expected_temperature_celsius']
+      : metadata['temperature_celsius'];
+
+    if (metadata['effective_temperature_celsius'] === undefined) {
+      delete metadata['effective_temperature_celsius'];
+    }
+  }
+}
+
+/**
+ * Validate camera_config and image_quality_metrics (objects of scalar values)
+ */
+function normalizeNested(metadata: Record<string, unknown>, issues: MetadataIssue[]) {
+  const cameraConfig = metadata['camera_config'];
+  if (cameraConfig !== undefined) {
+    if (isScalarObject(cameraConfig)) {
+      metadata['camera_config'] = cameraConfig as CameraConfig;
+    } else {
+      issues.push({ field: 'camera_config', problem: 'invalid', message: 'configurația camerei nu este un obiect' });
+      delete metadata['camera_config'];
+    }
+  }
+
+  const metrics = metadata['image_quality_metrics'];
+  if (metrics !== undefined) {
+    const values = isScalarObject(metrics) ? metrics as Record<string, unknown> : null;
+    const normalized: Record<string, number | boolean> = {};
+
+    for (const name of QUALITY_METRICS) {
+      const value = values ? convert(values[name], 'number') : undefined;
+      if (typeof value === 'number') {
+        normalized[name] = value;
+      }
+    }
+
+    if (Object.keys(normalized).length === QUALITY_METRICS.length) {
+      for (const [name, type] of Object.entries(OPTIONAL_QUALITY_METRICS)) {
+        const value = convert(values![name], type);
+        if (typeof value === 'number' || typeof value === 'boolean') {
+          normalized[name] = value;
+        }
+      }
+      metadata['image_quality_metrics'] = normalized;
+    } else {
+      issues.push({ field: 'image_quality_metrics', problem: 'invalid', message: 'metrici de calitate incomplete' });
+      delete metadata['image_quality_metrics'];
+    }
+  }
+}
+
+function isScalarObject(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(item => item === null || ['string', 'number', 'boolean'].includes(typeof item));
+}
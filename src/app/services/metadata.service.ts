@@ -1,6 +1,24 @@
-import { Injectable } from '@angular/core';
-import { S3Service } from './s3.service';
+import { Inject, Injectable } from '@angular/core';
+import { PHOTO_STORE, PhotoStore } from './photo-store';
+import { PhotoKeyService } from './photo-key.service';
+import { PersistentCacheService } from './persistent-cache.service';
+import { MetadataIssue, normalizeMetadata } from './metadata-validator';
 
+/**
+ * Camera sensor settings reported by the firmware
+ */
+export interface CameraConfig {
+  frame_size?: string;
+  jpeg_quality?: number;
+  brightness?: number;
+  contrast?: number;
+  saturation?: number;
+  [setting: string]: string | number | boolean | undefined;
+}
+
+/**
+ * Photo .json sidecar written by the firmware, normalized by normalizeMetadata
+ */
 export interface PhotoMetadata {
   timestamp: string;
   uptime_seconds: number;
@@ -8,6 +26,7 @@ export interface PhotoMetadata {
   humidity_percent: number;
   cat_present: boolean;
   seconds_since_last_motion: number;
+  presence_timeout_seconds?: number; // No motion for this long = cat gone
   blanket_on: boolean;
   blanket_manual_override?: boolean;
   mode?: string;
@@ -15,12 +34,31 @@ export interface PhotoMetadata {
   chip_temperature?: number;
   wifi_connected?: boolean;
   camera_available?: boolean;
+  boot_attempts?: number;
+  max_boot_attempts?: number; // Limit the firmware allows for boot_attempts
+  effective_temperature_celsius?: number; // Temperature the blanket control used
+  expected_temperature_celsius?: number; // Temperature the firmware estimated when the sensor failed
+  using_fallback_temperature?: boolean;
+  camera_config?: CameraConfig;
+  heap_free_bytes?: number;
+  heap_min_free_bytes?: number; // Lowest free heap since boot
+  heap_size_bytes?: number;
+  psram_free_bytes?: number;
+  psram_size_bytes?: number;
+  next_scheduled_photo_minutes?: number; // The next photo is due this long after this one
+  time_since_last_photo_minutes?: number;
   image_quality_metrics?: {
     brightness: number;
     contrast: number;
     qualityScore: number;
     sharpness: number;
+    underexposure?: number; // Percent of the pixels, like overexposure
+    overexposure?: number;
+    noiseLevel?: number;
+    isDark?: boolean; // Firmware's own verdicts
+    isBright?: boolean;
   };
+  issues?: MetadataIssue[]; // Added by the validator (missing, malformed or out of range fields), not by the firmware
 }
 
 @Injectable({
@@ -29,11 +67,15 @@ export interface PhotoMetadata {
 export class MetadataService {
   private metadataCache: Map<string, PhotoMetadata> = new Map();
 
-  constructor(private s3Service: S3Service) { }
+  constructor(
+    @Inject(PHOTO_STORE) private store: PhotoStore,
+    private photoKeyService: PhotoKeyService,
+    private persistentCache: PersistentCacheService
+  ) { }
 
   /**
-   * Get metadata for a photo by its S3 key
-   * @param photoKey The S3 key of the photo (e.g., "folder/cat_20251030_123202.jpg")
+   * Get metadata for a photo by its key
+   * @param photoKey The key of the photo (e.g., "folder/cat_20251030_123202.jpg")
    * @returns The metadata or null if not found/error
    */
   async getMetadata(photoKey: string): Promise<PhotoMetadata | null> {
@@ -42,15 +84,20 @@ export class MetadataService {
       return this.metadataCache.get(photoKey)!;
     }
 
-    try {
-      // Convert .jpg key to .json key
-      const metadataKey = photoKey.replace('.jpg', '.json');
+    // Sidecars never change once written, so metadata survives reloads
+    // (validated again, as the rules may have changed since it was stored)
+    const persisted = normalizeMetadata(await this.persistentCache.getMetadata(photoKey));
+    if (persisted) {
+      this.metadataCache.set(photoKey, persisted);
+      return persisted;
+    }
 
-      // Get the object from S3
-      const response = await this.s3Service.getObject(metadataKey);
+    try {
+      // Convert photo/clip key to .json key
+      const metadataKey = this.photoKeyService.getMetadataKey(photoKey);
 
-      // Read the response body
-      const bodyText = await response.Body?.transformToString();
+      // Read the sidecar from the photo store
+      const bodyText = await this.store.getText(metadataKey);
 
       if (!bodyText) {
         console.warn('No metadata found for:', photoKey);
@@ -59,10 +106,21 @@ export class MetadataService {
 
       // Parse JSON with better error handling
       try {
-        const metadata: PhotoMetadata = JSON.parse(bodyText);
+        // Validate fields and fill what older firmware versions did not write (problems are listed in metadata.issues)
+        const metadata = normalizeMetadata(JSON.parse(bodyText));
+
+        if (!metadata) {
+          console.error('Metadata is not a JSON object for', photoKey);
+          return null;
+        }
+
+        if (metadata.issues) {
+          console.debug('Metadata issues for', photoKey, ':', metadata.issues);
+        }
 
         // Cache the metadata
         this.metadataCache.set(photoKey, metadata);
+        await this.persistentCache.putMetadata([{ key: photoKey, value: metadata }]);
 
         return metadata;
       } catch (jsonError: any) {
@@ -77,7 +135,23 @@ export class MetadataService {
   }
 
   /**
-   * Clear the metadata cache
+   * Cache metadata obtained elsewhere (e.g. embedded in a day manifest), validated like fetched metadata
+   */
+  async setMetadata(items: { photoKey: string, metadata: PhotoMetadata }[]) {
+    const normalized: { key: string, value: PhotoMetadata }[] = [];
+
+    for (const item of items) {
+      const metadata = normalizeMetadata(item.metadata);
+      if (metadata) {
+        this.metadataCache.set(item.photoKey, metadata);
+        normalized.push({ key: item.photoKey, value: metadata });
+      }
+    }
+    await this.persistentCache.putMetadata(normalized);
+  }
+
+  /**
+   * Clear the metadata cache (in memory only, persisted metadata is cleared on logout)
    */
   clearCache() {
     this.metadataCache.clear();
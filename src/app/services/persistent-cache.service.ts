@@ -0,0 +1,191 @@
+import { Injectable } from '@angular/core';
+import { StoredObject } from './photo-store';
+import { PhotoMetadata } from './metadata.service';
+
+const DB_NAME = 'cat-view-cache';
+const DB_VERSION = 1;
+
+const LISTINGS_STORE = 'listings';
+const METADATA_STORE = 'metadata';
+
+/**
+ * Record of an object store, evicted oldest stored first
+ */
+interface CacheRecord<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+}
+
+/**
+ * IndexedDB cache surviving reloads, for data that never changes once written:
+ * listings of finished UTC days and parsed photo metadata
+ * All methods resolve (never reject), so IndexedDB being unavailable (private browsing...) only costs requests
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PersistentCacheService {
+  // Size limits (records), oldest records are evicted beyond them
+  private readonly MAX_LISTINGS = 2000; // Days x cameras
+  private readonly MAX_METADATA = 100000; // Photos (~0.5 KB each)
+  private readonly EVICTION_RATIO = 0.1; // Share of the limit freed when it is exceeded
+
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * Get the cached listing of a finished day
+   * @param prefix Resolved listing prefix of the day (e.g. "folder/cat_20251030_")
+   */
+  async getListing(prefix: string): Promise<StoredObject[] | undefined> {
+    const record = await this.get<StoredObject[]>(LISTINGS_STORE, prefix);
+    return record?.value;
+  }
+
+  async putListing(prefix: string, objects: StoredObject[]): Promise<void> {
+    await this.put(LISTINGS_STORE, [{ key: prefix, value: objects }], this.MAX_LISTINGS);
+  }
+
+  /**
+   * Forget a day's listing (its photos were deleted or archived)
+   */
+  async deleteListing(prefix: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction(LISTINGS_STORE, 'readwrite');
+      tx.objectStore(LISTINGS_STORE).delete(prefix);
+      await this.complete(tx);
+    } catch (error) {
+      console.warn('Error writing persistent cache:', error);
+    }
+  }
+
+  async getMetadata(photoKey: string): Promise<PhotoMetadata | undefined> {
+    const record = await this.get<PhotoMetadata>(METADATA_STORE, photoKey);
+    return record?.value;
+  }
+
+  async putMetadata(items: { key: string, value: PhotoMetadata }[]): Promise<void> {
+    await this.put(METADATA_STORE, items, this.MAX_METADATA);
+  }
+
+  /**
+   * Delete all cached listings and metadata (logout)
+   */
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction([LISTINGS_STORE, METADATA_STORE], 'readwrite');
+      tx.objectStore(LISTINGS_STORE).clear();
+      tx.objectStore(METADATA_STORE).clear();
+      await this.complete(tx);
+    } catch (error) {
+      console.warn('Error clearing persistent cache:', error);
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          for (const name of [LISTINGS_STORE, METADATA_STORE]) {
+            if (!request.result.objectStoreNames.contains(name)) {
+              request.result.createObjectStore(name, { keyPath: 'key' }).createIndex('storedAt', 'storedAt');
+            }
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Persistent cache unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async get<T>(storeName: string, key: string): Promise<CacheRecord<T> | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+
+    try {
+      const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+      return await this.result<CacheRecord<T> | undefined>(request);
+    } catch (error) {
+      console.warn('Error reading persistent cache:', error);
+      return undefined;
+    }
+  }
+
+  private async put<T>(storeName: string, items: { key: string, value: T }[], maxRecords: number): Promise<void> {
+    const db = await this.open();
+    if (!db || items.length === 0) return;
+
+    try {
+      const storedAt = Date.now();
+      const tx = db.transaction(storeName, 'readwrite');
+      const store = tx.objectStore(storeName);
+
+      for (const item of items) {
+        store.put({ key: item.key, value: item.value, storedAt } as CacheRecord<T>);
+      }
+      await this.complete(tx);
+
+      await this.evict(db, storeName, maxRecords);
+    } catch (error) {
+      // Typically QuotaExceededError: the data is simply fetched again next time
+      console.warn('Error writing persistent cache:', error);
+    }
+  }
+
+  /**
+   * Delete the oldest records when a store exceeds its limit
+   */
+  private async evict(db: IDBDatabase, storeName: string, maxRecords: number): Promise<void> {
+    const countTx = db.transaction(storeName, 'readonly');
+    const count = await this.result(countTx.objectStore(storeName).count());
+    if (count <= maxRecords) return;
+
+    let toDelete = count - maxRecords + Math.ceil(maxRecords * this.EVICTION_RATIO);
+    const tx = db.transaction(storeName, 'readwrite');
+    const cursorRequest = tx.objectStore(storeName).index('storedAt').openCursor();
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor && toDelete > 0) {
+        cursor.delete();
+        toDelete--;
+        cursor.continue();
+      }
+    };
+
+    await this.complete(tx);
+    console.log(`Persistent cache: evicted oldest records from ${storeName}`);
+  }
+
+  private result<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+}
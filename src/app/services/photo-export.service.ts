@@ -0,0 +1,220 @@
+import { Inject, Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { PHOTO_STORE, PhotoStore } from './photo-store';
+import { Photo } from './photo.service';
+import { DeviceService } from './device.service';
+import { MetadataService, PhotoMetadata } from './metadata.service';
+import { ZipWriter } from './zip-writer';
+
+/**
+ * Progress of the running export
+ */
+export interface ExportProgress {
+  fileName: string;
+  done: number; // Photos written
+  total: number; // 0 while the photos to export are being listed
+  bytes: number; // ZIP bytes written so far
+}
+
+// Where the ZIP goes: a file picked with the File System Access API, or an in-memory download
+interface ExportSink {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+// File System Access API (Chromium only, missing from the TypeScript DOM typings)
+interface WritableFile {
+  write(data: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+interface SaveFilePickerWindow {
+  showSaveFilePicker?: (options: {
+    suggestedName: string,
+    types: { description: string, accept: Record<string, string[]> }[]
+  }) => Promise<{ createWritable(): Promise<WritableFile> }>;
+}
+
+const CSV_COLUMNS = [
+  'file', 'camera', 'timestamp_utc', 'size_bytes', 'temperature_celsius', 'humidity_percent',
+  'cat_present', 'blanket_on', 'favorite', 'tags', 'note'
+];
+
+/**
+ * Downloads photos as a ZIP built in the browser: the photos, their .json sidecars and summary.csv
+ * Photos stream from their (pre-signed) URLs straight into the ZIP, one at a time
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PhotoExportService {
+  public progress$ = new BehaviorSubject<ExportProgress | null>(null);
+
+  private abortController: AbortController | null = null;
+
+  constructor(
+    @Inject(PHOTO_STORE) private store: PhotoStore,
+    private metadataService: MetadataService,
+    private deviceService: DeviceService
+  ) { }
+
+  get exporting(): boolean {
+    return !!this.abortController;
+  }
+
+  /**
+   * Export photos to a ZIP file
+   * The save dialog opens first (it needs the click that started the export), the photos are listed after
+   * @param fileName Suggested file name
+   * @param getPhotos Lists the photos to export
+   * @returns False when cancelled
+   */
+  async exportZip(fileName: string, getPhotos: () => Promise<Photo[]>): Promise<boolean> {
+    if (this.abortController) {
+      throw new Error('An export is already running');
+    }
+
+    const sink = await this.openSink(fileName);
+    if (!sink) return false; // Save dialog dismissed
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    const progress: ExportProgress = { fileName, done: 0, total: 0, bytes: 0 };
+    this.progress$.next({ ...progress });
+
+    try {
+      const photos = await getPhotos();
+      progress.total = photos.length;
+      this.progress$.next({ ...progress });
+
+      const zip = new ZipWriter(async chunk => {
+        abortController.signal.throwIfAborted();
+        await sink.write(chunk);
+        progress.bytes += chunk.length;
+      });
+
+      const rows: string[][] = [];
+      for (const photo of photos) {
+        const path = this.getEntryPath(photo);
+
+        const response = await fetch(await this.store.getUrl(photo.key), { signal: abortController.signal });
+        if (!response.ok || !response.body) {
+          throw new Error(`Failed to download ${photo.fileName} (HTTP ${response.status})`);
+        }
+        await zip.addEntry(path, response.body, photo.timestamp);
+
+        // Validated metadata, as shown in the app (older photos may have no sidecar)
+        const metadata = await this.metadataService.getMetadata(photo.key);
+        if (metadata) {
+          const json = JSON.stringify(metadata, null, 2);
+          await zip.addEntry(path.replace(/\.[^./]+$/, '.json'), new TextEncoder().encode(json), photo.timestamp);
+        }
+
+        rows.push(this.getSummaryRow(photo, path, metadata));
+        progress.done++;
+        this.progress$.next({ ...progress });
+      }
+
+      const csv = [CSV_COLUMNS, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+      await zip.addEntry('summary.csv', new TextEncoder().encode(csv));
+      await zip.finish();
+      await sink.close();
+
+      console.log(`Exported ${photos.length} photo(s) to ${fileName} (${progress.bytes} bytes)`);
+      return true;
+    } catch (error) {
+      await sink.abort();
+
+      if (abortController.signal.aborted) {
+        console.log('Export cancelled');
+        return false;
+      }
+      throw error;
+    } finally {
+      this.abortController = null;
+      this.progress$.next(null);
+    }
+  }
+
+  /**
+   * Stop the running export, the partial file is discarded
+   */
+  cancel() {
+    this.abortController?.abort();
+  }
+
+  /**
+   * Let the user pick the file when the browser allows streaming to disk,
+   * else keep the ZIP in memory and download it once complete
+   * @returns null when the save dialog was dismissed
+   */
+  private async openSink(fileName: string): Promise<ExportSink | null> {
+    const picker = (window as SaveFilePickerWindow).showSaveFilePicker;
+
+    if (picker) {
+      try {
+        const handle = await picker.call(window, {
+          suggestedName: fileName,
+          types: [{ description: 'ZIP', accept: { 'application/zip': ['.zip'] } }]
+        });
+        const file = await handle.createWritable();
+        return {
+          write: chunk => file.write(chunk),
+          close: () => file.close(),
+          abort: () => file.abort().catch(() => undefined)
+        };
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') return null;
+        console.warn('Save dialog unavailable, downloading from memory:', error);
+      }
+    }
+
+    let parts: BlobPart[] = [];
+    return {
+      write: async chunk => { parts.push(chunk); },
+      close: async () => {
+        const url = URL.createObjectURL(new Blob(parts, { type: 'application/zip' }));
+        parts = [];
+
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+      },
+      abort: async () => { parts = []; }
+    };
+  }
+
+  /**
+   * Path of a photo in the ZIP: the camera, then its key below the camera's folder
+   * (keeps the dates of key schemes whose file names repeat every day, e.g. "2025/10/30/cat_123202.jpg")
+   */
+  private getEntryPath(photo: Photo): string {
+    const folder = this.store.resolveKey('', this.deviceService.getDevice(photo.deviceId)?.folder);
+    const key = photo.key.startsWith(folder) ? photo.key.substring(folder.length) : photo.fileName;
+    return `${photo.deviceId}/${key}`;
+  }
+
+  private getSummaryRow(photo: Photo, path: string, metadata: PhotoMetadata | null): string[] {
+    return [
+      path,
+      this.deviceService.getDevice(photo.deviceId)?.name ?? photo.deviceId,
+      photo.timestamp.toISOString(),
+      String(photo.size ?? ''),
+      String(metadata?.temperature_celsius ?? ''),
+      String(metadata?.humidity_percent ?? ''),
+      String(metadata?.cat_present ?? ''),
+      String(metadata?.blanket_on ?? ''),
+      photo.annotation?.favorite ? 'true' : '',
+      photo.annotation?.tags?.join('; ') ?? '',
+      photo.annotation?.note ?? ''
+    ];
+  }
+}
+
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
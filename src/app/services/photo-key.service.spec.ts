@@ -0,0 +1,59 @@
+import { TestBed } from '@angular/core/testing';
+
+import { PhotoKeyScheme, PhotoKeyService } from './photo-key.service';
+
+describe('PhotoKeyService', () => {
+  let service: PhotoKeyService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PhotoKeyService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should map photo and clip keys to their metadata sidecar', () => {
+    expect(service.getMetadataKey('folder/cat_20251030_123202.jpg')).toEqual('folder/cat_20251030_123202.json');
+    expect(service.getMetadataKey('2025/10/30/cat_123202.MP4')).toEqual('2025/10/30/cat_123202.json');
+  });
+});
+
+describe('PhotoKeyScheme', () => {
+  const day = new Date(Date.UTC(2025, 9, 30));
+
+  it('should parse compact keys as UTC', () => {
+    const scheme = new PhotoKeyScheme({ scheme: 'compact' });
+
+    expect(scheme.parse('folder/cat_20251030_123202.jpg')).toEqual({
+      timestamp: new Date(Date.UTC(2025, 9, 30, 12, 32, 2)),
+      mediaType: 'image'
+    });
+    expect(scheme.parse('folder/cat_20251030_123202.json')).toBeNull();
+    expect(scheme.getDayPrefix(day)).toEqual('cat_20251030_');
+  });
+
+  it('should parse iso keys with other prefixes', () => {
+    const scheme = new PhotoKeyScheme({ scheme: 'iso', prefix: 'porch-' });
+
+    expect(scheme.parse('porch-2025-10-30T12:32:02Z.png')?.timestamp).toEqual(new Date(Date.UTC(2025, 9, 30, 12, 32, 2)));
+    expect(scheme.parse('porch-2025-10-30T12-32-02.500Z.jpeg')?.mediaType).toEqual('image');
+    expect(scheme.getDayPrefix(day)).toEqual('porch-2025-10-30T');
+  });
+
+  it('should parse date-partitioned keys and motion clips', () => {
+    const scheme = new PhotoKeyScheme({ scheme: 'dated' });
+
+    expect(scheme.parse('folder/2025/10/30/cat_123202.mp4')).toEqual({
+      timestamp: new Date(Date.UTC(2025, 9, 30, 12, 32, 2)),
+      mediaType: 'video'
+    });
+    expect(scheme.parse('folder/2025/10/30/cat_20251030_123202.jpg')?.mediaType).toEqual('image');
+    expect(scheme.getDayPrefix(day)).toEqual('2025/10/30/');
+  });
+
+  it('should reject unknown schemes', () => {
+    expect(() => new PhotoKeyScheme({ scheme: 'other' })).toThrowError(/Unknown photo key scheme/);
+  });
+});
@@ -0,0 +1,148 @@
+import { Injectable } from '@angular/core';
+import { environment } from '../../environments/environment';
+import { Device } from './device.service';
+
+export type PhotoMediaType = 'image' | 'video';
+
+/**
+ * How a camera names its files
+ * - compact: cat_YYYYMMDD_HHMMSS.jpg (original firmware)
+ * - iso: cat_2025-10-30T12:32:02Z.jpg (':' may also be '-' or omitted, fractional seconds allowed)
+ * - dated: YYYY/MM/DD/cat_HHMMSS.jpg or YYYY/MM/DD/cat_YYYYMMDD_HHMMSS.jpg (date-partitioned folders)
+ * - custom: pattern is a regex matched against the end of the key with named groups
+ *   year, month, day, hour, minute, second and ext; dayPrefix is the listing prefix of a day
+ *   with {YYYY}, {MM} and {DD} placeholders
+ */
+export interface PhotoKeySchemeConfig {
+  scheme: string; // 'compact' | 'iso' | 'dated' | 'custom'
+  prefix?: string; // File name prefix (default: 'cat_')
+  pattern?: string;
+  dayPrefix?: string;
+}
+
+export interface ParsedPhotoKey {
+  timestamp: Date;
+  mediaType: PhotoMediaType;
+}
+
+const DEFAULT_PREFIX = 'cat_';
+
+// Supported extensions (.jpg/.jpeg/.png photos, short .mp4 motion clips)
+const EXTENSIONS = 'jpe?g|png|mp4';
+
+const MEDIA_TYPES: Record<string, PhotoMediaType> = {
+  jpg: 'image',
+  jpeg: 'image',
+  png: 'image',
+  mp4: 'video'
+};
+
+/**
+ * Parses keys and builds day listing prefixes for one naming scheme
+ * IMPORTANT: Timestamps in keys are UTC
+ */
+export class PhotoKeyScheme {
+  private readonly pattern: RegExp;
+  private readonly dayPrefix: string;
+
+  constructor(config: PhotoKeySchemeConfig) {
+    const prefix = (config.prefix ?? DEFAULT_PREFIX).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const ext = `\\.(?<ext>${EXTENSIONS})$`;
+    const time = '(?<hour>\\d{2})(?<minute>\\d{2})(?<second>\\d{2})';
+
+    switch (config.scheme) {
+      case 'compact':
+        this.pattern = new RegExp(`${prefix}(?<year>\\d{4})(?<month>\\d{2})(?<day>\\d{2})_${time}${ext}`, 'i');
+        this.dayPrefix = `${config.prefix ?? DEFAULT_PREFIX}{YYYY}{MM}{DD}_`;
+        break;
+      case 'iso':
+        this.pattern = new RegExp(
+          `${prefix}(?<year>\\d{4})-(?<month>\\d{2})-(?<day>\\d{2})T` +
+          `(?<hour>\\d{2})[:-]?(?<minute>\\d{2})[:-]?(?<second>\\d{2})(?:\\.\\d+)?Z?${ext}`, 'i');
+        this.dayPrefix = `${config.prefix ?? DEFAULT_PREFIX}{YYYY}-{MM}-{DD}T`;
+        break;
+      case 'dated':
+        this.pattern = new RegExp(`(?<year>\\d{4})/(?<month>\\d{2})/(?<day>\\d{2})/${prefix}(?:\\d{8}_)?${time}${ext}`, 'i');
+        this.dayPrefix = '{YYYY}/{MM}/{DD}/';
+        break;
+      case 'custom':
+        if (!config.pattern || !config.dayPrefix) {
+          throw new Error('Custom photo key scheme requires both PHOTO_KEY_PATTERN and PHOTO_KEY_DAY_PREFIX.');
+        }
+        this.pattern = new RegExp(config.pattern, 'i');
+        this.dayPrefix = config.dayPrefix;
+        break;
+      default:
+        throw new Error(`Unknown photo key scheme '${config.scheme}'. Use compact, iso, dated or custom.`);
+    }
+  }
+
+  /**
+   * Parse a key to extract timestamp and media type
+   * Example: folder/cat_20251030_032811.jpg -> 2025-10-30T03:28:11Z, image
+   * @returns null for keys that are not photos/clips of this scheme (metadata, manifests...)
+   */
+  parse(key: string): ParsedPhotoKey | null {
+    const groups = key.match(this.pattern)?.groups;
+    if (!groups) return null;
+
+    const mediaType = MEDIA_TYPES[(groups['ext'] ?? 'jpg').toLowerCase()];
+    if (!mediaType) return null;
+
+    const timestamp = new Date(Date.UTC(
+      parseInt(groups['year'], 10),
+      parseInt(groups['month'], 10) - 1, // JS months are 0-indexed
+      parseInt(groups['day'], 10),
+      parseInt(groups['hour'], 10),
+      parseInt(groups['minute'], 10),
+      parseInt(groups['second'], 10)
+    ));
+
+    return isNaN(timestamp.getTime()) ? null : { timestamp, mediaType };
+  }
+
+  /**
+   * Listing prefix for all files of a UTC day (e.g. "cat_20251030_" or "2025/10/30/")
+   */
+  getDayPrefix(date: Date): string {
+    const year = String(date.getUTCFullYear());
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(date.getUTCDate()).padStart(2, '0');
+
+    return this.dayPrefix
+      .replace('{YYYY}', year)
+      .replace('{MM}', month)
+      .replace('{DD}', day);
+  }
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PhotoKeyService {
+  private defaultScheme = new PhotoKeyScheme(environment.photoKeys);
+  private deviceSchemes = new Map<string, PhotoKeyScheme>();
+
+  /**
+   * Naming scheme of a camera (its own keyScheme, or the configured default)
+   */
+  getScheme(device?: Device): PhotoKeyScheme {
+    if (!device?.keyScheme) {
+      return this.defaultScheme;
+    }
+
+    let scheme = this.deviceSchemes.get(device.id);
+    if (!scheme) {
+      scheme = new PhotoKeyScheme(device.keyScheme);
+      this.deviceSchemes.set(device.id, scheme);
+    }
+    return scheme;
+  }
+
+  /**
+   * Get the metadata JSON sidecar key for a photo or clip (same key, .json extension)
+   */
+  getMetadataKey(photoKey: string): string {
+    return photoKey.replace(/\.[^./]+$/, '.json');
+  }
+}
@@ -0,0 +1,46 @@
+import { ImageQuality, QualityPhoto, matchesQualityFilter, pickBestPerHour } from './photo-quality';
+
+describe('photo quality', () => {
+  const quality = (changes: Partial<ImageQuality> = {}): ImageQuality =>
+    ({ brightness: 120, contrast: 70, qualityScore: 60, sharpness: 90, ...changes });
+
+  function photo(time: string, score: number | undefined, deviceId = 'porch'): QualityPhoto & { name: string } {
+    return {
+      name: `${deviceId} ${time}`,
+      timestamp: new Date(`2025-10-30T${time}Z`),
+      deviceId,
+      quality: score === undefined ? undefined : quality({ qualityScore: score })
+    };
+  }
+
+  it('should hide dark photos by the firmware verdict, else by brightness', () => {
+    expect(matchesQualityFilter(quality({ brightness: 20 }), { hideDark: true })).toBeFalse();
+    expect(matchesQualityFilter(quality({ brightness: 20, isDark: false }), { hideDark: true })).toBeTrue();
+    expect(matchesQualityFilter(quality({ underexposure: 80 }), { hideDark: true })).toBeFalse();
+    expect(matchesQualityFilter(quality({ brightness: 20 }), {})).toBeTrue();
+  });
+
+  it('should hide blurry photos and photos under the minimum score', () => {
+    expect(matchesQualityFilter(quality({ sharpness: 10 }), { hideBlurry: true })).toBeFalse();
+    expect(matchesQualityFilter(quality({ qualityScore: 40 }), { minQualityScore: 50 })).toBeFalse();
+    expect(matchesQualityFilter(quality({ qualityScore: 50 }), { minQualityScore: 50 })).toBeTrue();
+  });
+
+  it('should keep photos without metrics unless a minimum score is set', () => {
+    expect(matchesQualityFilter(undefined, { hideDark: true, hideBlurry: true })).toBeTrue();
+    expect(matchesQualityFilter(undefined, { minQualityScore: 1 })).toBeFalse();
+  });
+
+  it('should pick the best photo of each camera and hour, in order', () => {
+    const picked = pickBestPerHour([
+      photo('13:40:00', 50),
+      photo('13:10:00', 70),
+      photo('12:50:00', undefined),
+      photo('12:20:00', 40),
+      photo('12:30:00', 30, 'garage'),
+      photo('11:30:00', undefined)
+    ]);
+
+    expect(picked.map(item => item.name)).toEqual(['porch 13:10:00', 'porch 12:20:00', 'garage 12:30:00', 'porch 11:30:00']);
+  });
+});
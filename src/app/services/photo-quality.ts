@@ -0,0 +1,77 @@
+import { PhotoMetadata } from './metadata.service';
+
+export type ImageQuality = NonNullable<PhotoMetadata['image_quality_metrics']>;
+
+// Mean brightness (0-255) below which a photo is dark, for firmware without its own isDark verdict
+export const DARK_BRIGHTNESS = 50;
+// Percent of underexposed pixels above which a photo is dark
+export const DARK_UNDEREXPOSURE_PERCENT = 50;
+// Sharpness (0-100) below which a photo is blurry
+export const BLURRY_SHARPNESS = 30;
+
+/**
+ * Hides photos by their image quality metrics
+ */
+export interface QualityFilter {
+  hideDark?: boolean;
+  hideBlurry?: boolean;
+  minQualityScore?: number; // 0-100
+}
+
+export interface QualityPhoto {
+  timestamp: Date;
+  deviceId: string;
+  quality?: ImageQuality;
+}
+
+export function isDark(quality: ImageQuality): boolean {
+  if (quality.isDark !== undefined) return quality.isDark;
+  return quality.brightness < DARK_BRIGHTNESS || (quality.underexposure ?? 0) > DARK_UNDEREXPOSURE_PERCENT;
+}
+
+export function isBlurry(quality: ImageQuality): boolean {
+  return quality.sharpness < BLURRY_SHARPNESS;
+}
+
+export function hasQualityFilter(filter: QualityFilter): boolean {
+  return !!filter.hideDark || !!filter.hideBlurry || !!filter.minQualityScore;
+}
+
+/**
+ * True when a photo's metrics pass the filter
+ * Photos without metrics are only hidden by a minimum quality score (their quality is unknown)
+ */
+export function matchesQualityFilter(quality: ImageQuality | undefined, filter: QualityFilter): boolean {
+  if (!quality) return !filter.minQualityScore;
+
+  return !(filter.hideDark && isDark(quality)) &&
+    !(filter.hideBlurry && isBlurry(quality)) &&
+    quality.qualityScore >= (filter.minQualityScore ?? 0);
+}
+
+/**
+ * Camera and clock hour (of the epoch, so local hours for whole-hour time zones) a photo belongs to
+ */
+export function getHourBucket(photo: QualityPhoto): string {
+  return `${photo.deviceId}@${Math.floor(photo.timestamp.getTime() / 3_600_000)}`;
+}
+
+/**
+ * The best photo (highest quality score) of each camera and hour
+ * Photos without metrics only win hours without scored photos, then the first one does
+ * @returns The picked photos, in their original order
+ */
+export function pickBestPerHour<T extends QualityPhoto>(photos: T[]): T[] {
+  const best = new Map<string, T>();
+
+  for (const photo of photos) {
+    const bucket = getHourBucket(photo);
+    const current = best.get(bucket);
+    if (!current || (photo.quality?.qualityScore ?? -1) > (current.quality?.qualityScore ?? -1)) {
+      best.set(bucket, photo);
+    }
+  }
+
+  const picked = new Set(best.values());
+  return photos.filter(photo => picked.has(photo));
+}
@@ -0,0 +1,92 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { Photo, PhotoRemovalMode, PhotoService } from './photo.service';
+
+/**
+ * Removal waiting for its undo window to pass
+ */
+export interface PendingRemoval {
+  photos: Photo[];
+  mode: PhotoRemovalMode;
+  expiresAt: number; // Time (ms) the photos are actually deleted/archived
+}
+
+export interface FailedRemoval {
+  photos: Photo[]; // Photos to show again
+  message: string;
+}
+
+/**
+ * Deletes or archives photos after an undo window
+ * Photos disappear from the list right away, the store is only changed once the window passed
+ * (closing the page during the window keeps the photos)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PhotoRemovalService {
+  readonly UNDO_WINDOW_MS = 10000;
+
+  public pending$ = new BehaviorSubject<PendingRemoval | null>(null);
+  public failed$ = new Subject<FailedRemoval>();
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private photoService: PhotoService) { }
+
+  /**
+   * Hide photos now and remove them from the store once the undo window passed
+   * A removal still pending is carried out first
+   */
+  async remove(photos: Photo[], mode: PhotoRemovalMode): Promise<void> {
+    await this.commit();
+
+    this.photoService.removeFromCache(photos);
+    this.pending$.next({ photos, mode, expiresAt: Date.now() + this.UNDO_WINDOW_MS });
+    this.timer = setTimeout(() => this.commit(), this.UNDO_WINDOW_MS);
+  }
+
+  /**
+   * Cancel the pending removal
+   * @returns The photos to show again
+   */
+  undo(): Photo[] {
+    const pending = this.pending$.getValue();
+    if (!pending) return [];
+
+    this.clearTimer();
+    this.pending$.next(null);
+    this.photoService.restoreToCache(pending.photos);
+
+    return pending.photos;
+  }
+
+  /**
+   * Carry out the pending removal now
+   */
+  async commit(): Promise<void> {
+    const pending = this.pending$.getValue();
+    if (!pending) return;
+
+    this.clearTimer();
+    this.pending$.next(null);
+
+    try {
+      await this.photoService.removePhotos(pending.photos, pending.mode);
+    } catch (error) {
+      console.error('Error removing photos:', error);
+      this.photoService.restoreToCache(pending.photos);
+      this.failed$.next({
+        photos: pending.photos,
+        message: (error as Error).message || 'Failed to remove photos'
+      });
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { RequestStats } from './request-scheduler';
+import { S3PhotoStore } from './s3-photo-store.service';
+import { HttpPhotoStore } from './http-photo-store.service';
+
+/**
+ * An object (photo, metadata sidecar...) as seen by a storage backend
+ * Keys are opaque to callers, only the last path segment (the file name) is parsed
+ */
+export interface StoredObject {
+  key: string;
+  size?: number;
+  lastModified?: Date;
+}
+
+export interface StoredObjectPage {
+  objects: StoredObject[];
+  continuationToken?: string; // Set when more objects are available for the same prefix
+}
+
+/**
+ * Storage backend holding the camera's cat_YYYYMMDD_HHMMSS.jpg/.json files
+ */
+export interface PhotoStore {
+  /**
+   * False for read-only backends (writes throw)
+   */
+  readonly writable: boolean;
+
+  /**
+   * Full key of a file in a folder (default: the backend's configured folder)
+   */
+  resolveKey(name: string, folder?: string): string;
+
+  /**
+   * List objects whose file name starts with the given prefix (e.g. "cat_20251030_")
+   * @param folder Folder to list (default: the backend's configured folder)
+   * @param signal Cancels the listing (rejects with an AbortError)
+   */
+  list(prefix?: string, maxKeys?: number, continuationToken?: string, folder?: string, signal?: AbortSignal): Promise<StoredObjectPage>;
+
+  /**
+   * Get a URL the browser can load directly (e.g. in an <img> tag)
+   * URLs may expire (S3 pre-signed URLs): call again when loading fails
+   * @param renew Don't reuse a cached URL (it was rejected, e.g. expired)
+   */
+  getUrl(key: string, renew?: boolean): Promise<string>;
+
+  /**
+   * Read an object as text (used for the .json metadata sidecars)
+   * @returns undefined when the object does not exist
+   */
+  getText(key: string): Promise<string | undefined>;
+
+  /**
+   * Create or replace an object with text content (used for generated manifests)
+   */
+  putText(key: string, body: string, contentType?: string): Promise<void>;
+
+  /**
+   * Copy an object (used to archive photos)
+   */
+  copy(sourceKey: string, destinationKey: string): Promise<void>;
+
+  /**
+   * Delete objects, keys that don't exist are ignored
+   */
+  delete(keys: string[]): Promise<void>;
+
+  /**
+   * Clears all caches (useful when logging out)
+   */
+  clearCaches(): void;
+
+  /**
+   * Counters of the requests sent to the backend, null when the backend doesn't count them
+   */
+  readonly requestStats$: Observable<RequestStats> | null;
+
+  /**
+   * Reset the request counters (when switching view, to show what each view costs)
+   */
+  resetRequestStats(): void;
+}
+
+/**
+ * The configured storage backend (environment.storage.backend: 's3' or 'http')
+ */
+export const PHOTO_STORE = new InjectionToken<PhotoStore>('PHOTO_STORE', {
+  providedIn: 'root',
+  factory: () => environment.storage.backend === 'http'
+    ? inject(HttpPhotoStore)
+    : inject(S3PhotoStore)
+});
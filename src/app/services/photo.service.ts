@@ -1,80 +1,122 @@
-import { Injectable } from '@angular/core';
-import { S3Service } from './s3.service';
+import { Inject, Injectable } from '@angular/core';
+import { PHOTO_STORE, PhotoStore, StoredObject, StoredObjectPage } from './photo-store';
+import { Device, DeviceService } from './device.service';
+import { PhotoKeyService, PhotoMediaType } from './photo-key.service';
+import { ManifestEntry, ManifestService } from './manifest.service';
+import { MetadataService } from './metadata.service';
+import { PersistentCacheService } from './persistent-cache.service';
+import { AnnotationService, PhotoAnnotation } from './annotation.service';
+import { ImageQuality, QualityFilter, hasQualityFilter, matchesQualityFilter, pickBestPerHour } from './photo-quality';
+import { ChangeDetectionService } from './change-detection.service';
+import { isSignificantChange } from './frame-difference';
 
 export interface Photo {
   key: string;
   fileName: string;
   timestamp: Date;
-  url: string;
   size?: number;
+  deviceId: string; // Camera that took the photo
+  mediaType: PhotoMediaType; // 'image' for photos, 'video' for motion clips
+  annotation?: PhotoAnnotation; // Favorite, tags and note (set when paged)
+  quality?: ImageQuality; // Image quality metrics (set when filtering by quality)
+  changeScore?: number; // Percent of pixels changed since the camera's previous photo (set when filtering by change)
+}
+
+/**
+ * Restricts paged photos to annotated ones, or by image quality (motion clips only by annotations)
+ */
+export interface PhotoFilter extends QualityFilter {
+  favoritesOnly?: boolean;
+  tag?: string; // Case-insensitive
+  bestPerHour?: boolean; // Only the best photo of each camera and hour, no motion clips
+  changedOnly?: boolean; // Only photos that changed significantly since the camera's previous photo
+}
+
+export interface ManifestBuildProgress {
+  done: number; // Days processed so far
+  total: number; // Days (per camera) without a manifest in the range
+  built: number; // Manifests written
 }
 
 export interface PhotoPage {
   photos: Photo[];
   continuationToken?: string;
   hasMore: boolean;
+  searchedBackTo?: Date; // Oldest UTC day searched, when the page stopped short after MAX_SEARCH_DAYS days
+}
+
+export type PhotoRemovalMode = 'delete' | 'archive';
+
+export interface PhotoJump {
+  photos: Photo[]; // Photos loaded around the target, newest first
+  selected: Photo | null; // Photo nearest to the target
+  hasOlder: boolean;
+  hasNewer: boolean; // The list doesn't reach the end of the range (or today) yet
+}
+
+// Stored object tagged with the camera whose folder it was listed from
+interface DeviceObject extends StoredObject {
+  deviceId: string;
 }
 
 @Injectable({
   providedIn: 'root'
 })
 export class PhotoService {
-  // File pattern: cat_YYYYMMDD_HHMMSS.jpg
-  private readonly PHOTO_PATTERN = /cat_(\d{8})_(\d{6})\.jpg$/;
-
   // Cache for infinite scroll pagination
   private photoCache: Photo[] = [];
-  private currentDate: Date; // Current date we're loading from (starts with today UTC, goes backward)
+  private pendingDays: Date[] = []; // UTC days still to load, newest first
+  private newerDays: Date[] = []; // UTC days newer than a jump target still to load, oldest first
+  private rangeStart?: Date; // Date range of the cached photos (undefined = open-ended)
+  private rangeEnd?: Date;
+  private filter: PhotoFilter = {}; // Filter of the cached photos
   private hasMorePhotos = true;
   private isLoadingMore = false;
-
-  private initCurrentDate(): Date {
-    // Start with today in UTC (not local time)
-    const now = new Date();
-    const utcDate = new Date(Date.UTC(
-      now.getUTCFullYear(),
-      now.getUTCMonth(),
-      now.getUTCDate(),
-      23, 59, 59 // End of day to ensure we get all of today's photos
-    ));
-    return utcDate;
-  }
-
-  constructor(private s3Service: S3Service) {
-    this.currentDate = this.initCurrentDate();
+  private oldestLoadedDay?: Date; // Oldest UTC day loaded into the cache
+  private pagingAbort = new AbortController(); // Cancels the requests of the paged view when it is replaced
+
+  // Days loaded per page or jump at most: a filter matching little would otherwise scan the whole history first
+  private readonly MAX_SEARCH_DAYS = 14;
+
+  constructor(
+    @Inject(PHOTO_STORE) private store: PhotoStore,
+    private deviceService: DeviceService,
+    private photoKeyService: PhotoKeyService,
+    private manifestService: ManifestService,
+    private metadataService: MetadataService,
+    private persistentCache: PersistentCacheService,
+    private annotationService: AnnotationService,
+    private changeDetection: ChangeDetectionService
+  ) {
+    this.pendingDays = this.getPagingDays();
   }
 
   /**
-   * Parse filename to extract timestamp
-   * Example: cat_20251030_032811.jpg -> Date object
-   * IMPORTANT: Filenames are in UTC, so we parse as UTC
+   * Days to walk for infinite scroll, newest first
+   * Without a range, starts with today UTC and goes back up to 2 years
    */
-  private parseFileName(fileName: string): Date | null {
-    const match = fileName.match(this.PHOTO_PATTERN);
-    if (!match) return null;
+  private getPagingDays(startDate?: Date, endDate?: Date): Date[] {
+    const twoYearsAgo = new Date();
+    twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
 
-    const dateStr = match[1]; // YYYYMMDD
-    const timeStr = match[2]; // HHMMSS
+    const days = this.getDateRangeDays(startDate ?? twoYearsAgo, endDate ?? new Date()).reverse();
 
-    const year = parseInt(dateStr.substring(0, 4), 10);
-    const month = parseInt(dateStr.substring(4, 6), 10) - 1; // JS months are 0-indexed
-    const day = parseInt(dateStr.substring(6, 8), 10);
-    const hour = parseInt(timeStr.substring(0, 2), 10);
-    const minute = parseInt(timeStr.substring(2, 4), 10);
-    const second = parseInt(timeStr.substring(4, 6), 10);
+    // Without an end date nothing is newer than today, drop the extra day after the range
+    if (!endDate) {
+      days.shift();
+    }
 
-    // Create UTC date (filenames are in UTC)
-    return new Date(Date.UTC(year, month, day, hour, minute, second));
+    return days;
   }
 
   /**
-   * Generate S3 prefixes for date range
-   * Returns prefixes like: ["cat_20251102_", "cat_20251101_", "cat_20251031_"]
+   * Generate the UTC days to list for a date range
+   * Each day maps to one listing prefix per camera, like "cat_20251102_" or "2025/11/02/"
    * Includes extra day before/after to avoid midnight cutoff issues
-   * IMPORTANT: Uses UTC dates since filenames are in UTC
+   * IMPORTANT: Uses UTC dates since file names are in UTC
    */
-  private getDatePrefixes(startDate: Date, endDate: Date): string[] {
-    const prefixes: string[] = [];
+  private getDateRangeDays(startDate: Date, endDate: Date): Date[] {
+    const days: Date[] = [];
 
     // Work in UTC since filenames are UTC-based
     // Add one day before and after to avoid cutoff issues
@@ -89,103 +131,160 @@ export class PhotoService {
     const current = new Date(start);
 
     while (current <= end) {
-      const year = current.getUTCFullYear();
-      const month = String(current.getUTCMonth() + 1).padStart(2, '0');
-      const day = String(current.getUTCDate()).padStart(2, '0');
-      prefixes.push(`cat_${year}${month}${day}_`);
+      days.push(new Date(current));
       current.setUTCDate(current.getUTCDate() + 1);
     }
 
-    return prefixes;
+    return days;
   }
 
   /**
-   * Get photos from S3 filtered by date range
-   * Fetches ALL photos in the date range using S3 continuation tokens
-   * @param startDate Start of date range (default: 24 hours ago)
-   * @param endDate End of date range (default: now)
+   * List ALL objects of a camera's folder for a UTC day
+   * Completed days never change: they come from the persistent cache, else the day manifest
+   * (one request, metadata included), else a listing, and are then persisted
+   * @param signal Cancels the listing requests
    */
-  async getPhotos(
-    startDate?: Date,
-    endDate?: Date
-  ): Promise<Photo[]> {
-    // Default to last 24 hours
-    if (!endDate) {
-      endDate = new Date();
+  private async listDayObjects(day: Date, device: Device, signal?: AbortSignal): Promise<DeviceObject[]> {
+    if (!this.manifestService.isCompletedDay(day)) {
+      return await this.listDayObjectsFromStore(day, device, signal);
     }
-    if (!startDate) {
-      startDate = new Date(endDate.getTime() - 24 * 60 * 60 * 1000); // 24 hours ago
+
+    const cacheKey = this.getListingCacheKey(day, device);
+    const cached = await this.persistentCache.getListing(cacheKey);
+
+    if (cached) {
+      return cached.map(obj => ({ ...obj, deviceId: device.id }));
     }
 
-    // Get date-based prefixes (includes +/- 1 day to avoid midnight cutoff)
-    const prefixes = this.getDatePrefixes(startDate, endDate);
+    let objects: DeviceObject[];
+    const manifest = await this.manifestService.getManifest(day, device);
 
-    const allObjects: any[] = [];
+    if (manifest) {
+      console.log(`Manifest ${manifest.date} (${device.id}): ${manifest.photos.length} photos`);
 
-    // Fetch ALL objects from each prefix using continuation tokens
-    for (const prefix of prefixes) {
-      let continuationToken: string | undefined = undefined;
-      let hasMore = true;
-      let batchCount = 0;
+      // Embedded metadata saves one GET per photo later (viewer, graphs)
+      await this.metadataService.setMetadata(manifest.photos
+        .filter(entry => !!entry.metadata)
+        .map(entry => ({ photoKey: entry.key, metadata: entry.metadata! })));
 
-      while (hasMore) {
-        batchCount++;
-        const response = await this.s3Service.listObjects(prefix, 1000, continuationToken);
+      objects = manifest.photos.map(entry => ({ key: entry.key, size: entry.size, deviceId: device.id }));
+    } else {
+      objects = await this.listDayObjectsFromStore(day, device, signal);
+    }
 
-        if (response.Contents) {
-          allObjects.push(...response.Contents);
-          console.log(`Prefix ${prefix}: Batch ${batchCount} - fetched ${response.Contents.length} objects, total so far: ${allObjects.length}`);
-        }
+    await this.persistentCache.putListing(cacheKey, objects.map(obj => ({ key: obj.key, size: obj.size, lastModified: obj.lastModified })));
+    return objects;
+  }
 
-        if (response.IsTruncated && response.NextContinuationToken) {
-          continuationToken = response.NextContinuationToken;
-          console.log(`Prefix ${prefix}: More data available, continuing with token...`);
-        } else {
-          hasMore = false;
-          console.log(`Prefix ${prefix}: No more data, finished with ${batchCount} batches`);
-        }
+  /**
+   * Key of a day's listing in the persistent cache (the day's full listing prefix)
+   */
+  private getListingCacheKey(day: Date, device: Device): string {
+    return this.store.resolveKey(this.photoKeyService.getScheme(device).getDayPrefix(day), device.folder);
+  }
+
+  /**
+   * List ALL objects of a camera's folder for a UTC day, following continuation tokens
+   */
+  private async listDayObjectsFromStore(day: Date, device: Device, signal?: AbortSignal): Promise<DeviceObject[]> {
+    const prefix = this.photoKeyService.getScheme(device).getDayPrefix(day);
+    const objects: DeviceObject[] = [];
+    let continuationToken: string | undefined = undefined;
+    let batchCount = 0;
+
+    while (true) {
+      batchCount++;
+      const page: StoredObjectPage = await this.store.list(prefix, 1000, continuationToken, device.folder, signal);
+
+      objects.push(...page.objects.map(obj => ({ ...obj, deviceId: device.id })));
+      console.log(`Prefix ${prefix} (${device.id}): Batch ${batchCount} - fetched ${page.objects.length} objects, total so far: ${objects.length}`);
+
+      if (page.continuationToken) {
+        continuationToken = page.continuationToken;
+      } else {
+        break;
       }
     }
 
-    // Filter objects by exact date range and pattern
-    const filteredObjects = allObjects.filter(obj => {
-      const key = obj.Key || '';
-      const fileName = key.split('/').pop() || '';
+    return objects;
+  }
 
-      // Only include .jpg files matching the pattern
-      if (!this.PHOTO_PATTERN.test(fileName)) {
-        return false;
+  /**
+   * Convert listed objects to photos, newest first
+   * Skips objects that are not photos/clips (metadata, manifests...) or rejected by the timestamp filter
+   * URLs are not generated here: they are signed when a photo is shown (see getPhotoUrl)
+   */
+  private toPhotos(objects: DeviceObject[], includeTimestamp: (timestamp: Date) => boolean): Photo[] {
+    const photos: Photo[] = [];
+
+    for (const obj of objects) {
+      const scheme = this.photoKeyService.getScheme(this.deviceService.getDevice(obj.deviceId));
+      const parsed = scheme.parse(obj.key);
+
+      if (parsed && includeTimestamp(parsed.timestamp)) {
+        photos.push({
+          key: obj.key,
+          fileName: obj.key.split('/').pop()!,
+          timestamp: parsed.timestamp,
+          size: obj.size,
+          deviceId: obj.deviceId,
+          mediaType: parsed.mediaType
+        });
       }
+    }
 
-      // Parse timestamp and filter by date range
-      const timestamp = this.parseFileName(fileName);
-      if (!timestamp) return false;
+    // Sort by timestamp (newest first)
+    photos.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
 
-      return timestamp >= startDate! && timestamp <= endDate!;
-    });
+    return photos;
+  }
 
-    console.log(`Loaded ${filteredObjects.length} photos from S3 for date range`);
-
-    // Generate pre-signed URLs for all photos (in parallel)
-    const photos: Photo[] = await Promise.all(
-      filteredObjects.map(async obj => {
-        const key = obj.Key!;
-        const fileName = key.split('/').pop()!;
-        const timestamp = this.parseFileName(fileName)!;
-        const url = await this.s3Service.getPresignedUrl(key);
-
-        return {
-          key,
-          fileName,
-          timestamp,
-          url,
-          size: obj.Size
-        };
-      })
-    );
+  /**
+   * Get a URL to display a photo (pre-signed for S3, cached until shortly before it expires)
+   * @param renew Sign a new URL, e.g. when loading the previous one failed because it expired
+   */
+  async getPhotoUrl(photo: Photo, renew = false): Promise<string> {
+    return await this.store.getUrl(photo.key, renew);
+  }
 
-    // Sort by timestamp (newest first)
-    photos.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  /**
+   * Get photos from the photo store filtered by date range
+   * Fetches ALL photos in the date range using continuation tokens
+   * @param startDate Start of date range (default: 24 hours ago)
+   * @param endDate End of date range (default: now)
+   * @param filter When given, photos are annotated and only those passing the filter are returned
+   * @param signal Cancels the listings, e.g. when the page asking for the range changes it
+   */
+  async getPhotos(
+    startDate?: Date,
+    endDate?: Date,
+    filter?: PhotoFilter,
+    signal?: AbortSignal
+  ): Promise<Photo[]> {
+    // Default to last 24 hours
+    const end = endDate ?? new Date();
+    const start = startDate ?? new Date(end.getTime() - 24 * 60 * 60 * 1000); // 24 hours ago
+
+    // Get days to list (includes +/- 1 day to avoid midnight cutoff)
+    const days = this.getDateRangeDays(start, end);
+
+    const allObjects: DeviceObject[] = [];
+
+    // Fetch ALL objects of each day of each camera using continuation tokens
+    for (const day of days) {
+      for (const device of this.deviceService.getActiveDevices()) {
+        allObjects.push(...await this.listDayObjects(day, device, signal));
+      }
+    }
+
+    // Filter objects by exact date range and key scheme
+    let photos = this.toPhotos(allObjects, timestamp => timestamp >= start && timestamp <= end);
+
+    if (filter) {
+      photos = await this.filterPhotos(photos, filter, signal);
+    }
+
+    console.log(`Loaded ${photos.length} photos for date range`);
 
     return photos;
   }
@@ -206,96 +305,429 @@ export class PhotoService {
   async getNewPhotosSince(sinceTimestamp: Date, maxPhotos: number = 1000): Promise<Photo[]> {
     const now = new Date();
 
-    // Get date-based prefixes (includes +/- 1 day to avoid cutoff)
-    const prefixes = this.getDatePrefixes(sinceTimestamp, now);
+    // Get days to list (includes +/- 1 day to avoid cutoff)
+    const days = this.getDateRangeDays(sinceTimestamp, now);
+
+    // List objects for each day of each camera in parallel
+    const devices = this.deviceService.getActiveDevices();
+    const pages = await Promise.all(
+      days.flatMap(day => devices.map(async device => {
+        const prefix = this.photoKeyService.getScheme(device).getDayPrefix(day);
+        const page = await this.store.list(prefix, 1000, undefined, device.folder);
+        return page.objects.map(obj => ({ ...obj, deviceId: device.id }));
+      }))
+    );
 
-    // List objects for each prefix in parallel
-    const responses = await this.s3Service.listObjectsWithPrefixes(prefixes, 1000);
+    // Combine all results from all prefixes, keep photos newer than sinceTimestamp
+    const photos = this.toPhotos(pages.flat(), timestamp => timestamp > sinceTimestamp && timestamp <= now);
+    await this.annotate(photos);
+    return photos;
+  }
 
-    // Combine all results from all prefixes
-    const allObjects = responses.flatMap(response => response.Contents || []);
+  /**
+   * True when an annotated photo (with its quality, when filtering by quality) passes a filter
+   * The best photo of each hour is only picked by filterPhotos
+   */
+  matchesFilter(photo: Photo, filter: PhotoFilter): boolean {
+    if (filter.favoritesOnly && !photo.annotation?.favorite) {
+      return false;
+    }
+    if (photo.mediaType === 'image' && !matchesQualityFilter(photo.quality, filter)) {
+      return false;
+    }
+    // Photos that could not be scored (first photo of a camera, failed downloads) are left out, clips are kept
+    if (filter.changedOnly && photo.mediaType === 'image' &&
+        (photo.changeScore === undefined || !isSignificantChange(photo.changeScore))) {
+      return false;
+    }
 
-    // Filter for photos newer than sinceTimestamp
-    const filteredObjects = allObjects.filter(obj => {
-      const key = obj.Key || '';
-      const fileName = key.split('/').pop() || '';
+    const tag = filter.tag?.trim().toLowerCase();
+    return !tag || !!photo.annotation?.tags?.some(photoTag => photoTag.toLowerCase() === tag);
+  }
 
-      // Only include .jpg files matching the pattern
-      if (!this.PHOTO_PATTERN.test(fileName)) {
-        return false;
+  /**
+   * Photos passing a filter, with their annotations (and quality or change score when the filter needs it) attached
+   * @param photos Complete hours when picking the best photo of each hour, consecutive photos when filtering by change
+   * @param signal Cancels the listings of the photos the oldest ones are compared with
+   */
+  async filterPhotos(photos: Photo[], filter: PhotoFilter, signal?: AbortSignal): Promise<Photo[]> {
+    if (filter.bestPerHour) {
+      photos = photos.filter(photo => photo.mediaType === 'image');
+    }
+
+    await this.annotate(photos);
+    if (hasQualityFilter(filter) || filter.bestPerHour) {
+      await this.loadQuality(photos);
+    }
+    if (filter.changedOnly) {
+      await this.changeDetection.scorePhotos([...await this.getPreviousPhotos(photos, signal), ...photos]);
+    }
+
+    const matching = photos.filter(photo => this.matchesFilter(photo, filter));
+    return filter.bestPerHour ? pickBestPerHour(matching) : matching;
+  }
+
+  /**
+   * Photo taken just before the oldest photo of each camera among photos, whether or not a filter shows it
+   * Looked up in the oldest photo's UTC day, else the day before (for the first photo of a day)
+   */
+  private async getPreviousPhotos(photos: Photo[], signal?: AbortSignal): Promise<Photo[]> {
+    const oldest = new Map<string, Photo>();
+    for (const photo of photos) {
+      const current = oldest.get(photo.deviceId);
+      if (photo.mediaType === 'image' && (!current || photo.timestamp < current.timestamp)) {
+        oldest.set(photo.deviceId, photo);
       }
+    }
 
-      // Parse timestamp and filter for newer photos
-      const timestamp = this.parseFileName(fileName);
-      if (!timestamp) return false;
+    const previous = await Promise.all([...oldest.values()].map(async photo => {
+      const device = this.deviceService.getDevice(photo.deviceId);
+      if (!device) return undefined;
 
-      return timestamp > sinceTimestamp && timestamp <= now;
-    });
+      const day = new Date(photo.timestamp);
+      day.setUTCHours(0, 0, 0, 0);
+      for (let i = 0; i < 2; i++, day.setUTCDate(day.getUTCDate() - 1)) {
+        const earlier = this.toPhotos(await this.listDayObjects(day, device, signal), timestamp => timestamp < photo.timestamp)
+          .find(candidate => candidate.mediaType === 'image'); // Newest first
+        if (earlier) return earlier;
+      }
+      return undefined;
+    }));
 
-    // Generate pre-signed URLs for new photos (in parallel)
-    const photos: Photo[] = await Promise.all(
-      filteredObjects.map(async obj => {
-        const key = obj.Key!;
-        const fileName = key.split('/').pop()!;
-        const timestamp = this.parseFileName(fileName)!;
-        const url = await this.s3Service.getPresignedUrl(key);
-
-        return {
-          key,
-          fileName,
-          timestamp,
-          url,
-          size: obj.Size
-        };
-      })
-    );
+    return previous.filter((photo): photo is Photo => !!photo);
+  }
 
-    // Sort by timestamp (newest first)
-    photos.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  /**
+   * Attach their annotations to photos (one request per day and camera, then cached)
+   */
+  private async annotate(photos: Photo[]): Promise<void> {
+    await Promise.all(photos.map(async photo => {
+      try {
+        photo.annotation = await this.annotationService.getAnnotation(photo);
+      } catch (error) {
+        console.warn('Error loading annotations for', photo.key, ':', error);
+      }
+    }));
+  }
 
-    return photos;
+  /**
+   * Attach their image quality metrics to photos (from the cached or manifest metadata when available)
+   */
+  private async loadQuality(photos: Photo[]): Promise<void> {
+    await Promise.all(photos.map(async photo => {
+      if (photo.mediaType !== 'image' || photo.quality) return;
+
+      try {
+        photo.quality = (await this.metadataService.getMetadata(photo.key))?.image_quality_metrics;
+      } catch (error) {
+        console.warn('Error loading quality metrics for', photo.key, ':', error);
+      }
+    }));
+  }
+
+  /**
+   * Write manifests for the completed days of a date range that don't have one yet
+   * Lists each day and embeds every photo's metadata, so later loads of the day need one request
+   * @param startDate Start of date range
+   * @param endDate End of date range (days not completed yet are skipped)
+   * @param onProgress Called after each day (per camera)
+   * @returns Number of manifests written
+   */
+  async buildManifests(
+    startDate: Date,
+    endDate: Date,
+    onProgress?: (progress: ManifestBuildProgress) => void
+  ): Promise<number> {
+    const BATCH_SIZE = 5;
+    const tasks: { day: Date, device: Device }[] = [];
+
+    for (const day of this.getDateRangeDays(startDate, endDate)) {
+      if (!this.manifestService.isCompletedDay(day)) continue;
+
+      for (const device of this.deviceService.getActiveDevices()) {
+        if (!await this.manifestService.getManifest(day, device)) {
+          tasks.push({ day, device });
+        }
+      }
+    }
+
+    const progress: ManifestBuildProgress = { done: 0, total: tasks.length, built: 0 };
+    onProgress?.({ ...progress });
+
+    for (const { day, device } of tasks) {
+      const scheme = this.photoKeyService.getScheme(device);
+      const photoObjects = (await this.listDayObjectsFromStore(day, device))
+        .filter(obj => scheme.parse(obj.key) !== null);
+
+      // Fetch metadata in batches of 5
+      const entries: ManifestEntry[] = [];
+      for (let i = 0; i < photoObjects.length; i += BATCH_SIZE) {
+        const batch = photoObjects.slice(i, i + BATCH_SIZE);
+        const metadata = await Promise.all(batch.map(obj => this.metadataService.getMetadata(obj.key)));
+
+        entries.push(...batch.map((obj, j) => ({ key: obj.key, size: obj.size, metadata: metadata[j] })));
+      }
+
+      // Empty days get a manifest too, so they are never listed again
+      await this.manifestService.saveManifest(day, device, entries);
+
+      progress.done++;
+      progress.built++;
+      onProgress?.({ ...progress });
+    }
+
+    console.log(`Built ${progress.built} manifest(s)`);
+    return progress.built;
+  }
+
+  /**
+   * True when photos can be deleted or archived (the http backend is read-only)
+   */
+  get canModifyPhotos(): boolean {
+    return this.store.writable;
+  }
+
+  /**
+   * Drop photos from the paging cache (they are being deleted or archived)
+   */
+  removeFromCache(photos: Photo[]) {
+    const keys = new Set(photos.map(photo => photo.key));
+    this.photoCache = this.photoCache.filter(photo => !keys.has(photo.key));
+  }
+
+  /**
+   * Put photos back into the paging cache (their removal was undone)
+   */
+  restoreToCache(photos: Photo[]) {
+    this.mergeIntoCache(photos);
+  }
+
+  /**
+   * Delete photos with their .json sidecars, or move both to the camera folder's archive/ prefix
+   * Cached listings and manifests of the affected days are updated
+   */
+  async removePhotos(photos: Photo[], mode: PhotoRemovalMode): Promise<void> {
+    const keys = photos.flatMap(photo => [photo.key, this.getMetadataKey(photo.key)]);
+
+    if (mode === 'archive') {
+      for (const photo of photos) {
+        await this.store.copy(photo.key, this.getArchiveKey(photo, photo.key));
+
+        // Older photos may have no sidecar
+        const metadataKey = this.getMetadataKey(photo.key);
+        try {
+          await this.store.copy(metadataKey, this.getArchiveKey(photo, metadataKey));
+        } catch (error) {
+          console.warn('No metadata to archive for', photo.key, ':', error);
+        }
+      }
+    }
+
+    await this.store.delete(keys);
+    this.removeFromCache(photos);
+
+    // Days whose cached listing or manifest still lists the removed photos
+    const removed = new Set(keys);
+    const days = new Map<string, { day: Date, device: Device }>();
+    for (const photo of photos) {
+      const device = this.deviceService.getDevice(photo.deviceId);
+      if (!device) continue;
+
+      const day = new Date(photo.timestamp);
+      day.setUTCHours(0, 0, 0, 0);
+      days.set(`${device.id}:${day.getTime()}`, { day, device });
+    }
+
+    for (const { day, device } of days.values()) {
+      await this.persistentCache.deleteListing(this.getListingCacheKey(day, device));
+
+      const manifest = await this.manifestService.getManifest(day, device);
+      if (manifest) {
+        await this.manifestService.saveManifest(day, device, manifest.photos.filter(entry => !removed.has(entry.key)));
+      }
+    }
+
+    console.log(`${mode === 'archive' ? 'Archived' : 'Deleted'} ${photos.length} photo(s)`);
+  }
+
+  /**
+   * Key of an object in its camera folder's archive/ prefix
+   * e.g. "porch/cat_20251030_123202.jpg" -> "porch/archive/cat_20251030_123202.jpg"
+   */
+  private getArchiveKey(photo: Photo, key: string): string {
+    const folder = this.deviceService.getDevice(photo.deviceId)?.folder;
+    const folderPrefix = this.store.resolveKey('', folder);
+    const relativeKey = key.startsWith(folderPrefix) ? key.substring(folderPrefix.length) : key;
+    return this.store.resolveKey(`archive/${relativeKey}`, folder);
   }
 
   /**
    * Get the metadata JSON file key for a photo
    */
   getMetadataKey(photoKey: string): string {
-    return photoKey.replace('.jpg', '.json');
+    return this.photoKeyService.getMetadataKey(photoKey);
   }
 
   /**
    * Clear the photo cache and reset infinite scroll state
+   * @param startDate Oldest photo to page to (default: 2 years back)
+   * @param endDate Newest photo to start paging from (default: today)
+   * @param filter Only page photos passing this filter (default: all photos)
    */
-  clearCache() {
+  clearCache(startDate?: Date, endDate?: Date, filter: PhotoFilter = {}) {
+    this.cancelPaging();
     this.photoCache = [];
-    this.currentDate = this.initCurrentDate(); // Reset to today UTC
-    this.hasMorePhotos = true;
+    this.rangeStart = startDate;
+    this.rangeEnd = endDate;
+    this.filter = { ...filter };
+    this.pendingDays = this.getPagingDays(startDate, endDate);
+    this.newerDays = [];
+    this.hasMorePhotos = this.pendingDays.length > 0;
+    this.isLoadingMore = false;
+    this.oldestLoadedDay = undefined;
+  }
+
+  /**
+   * Cancel the requests still loading days of the paged view (e.g. its page was left)
+   * Pages requested before then reject with an AbortError
+   */
+  cancelPaging(): void {
+    this.pagingAbort.abort();
+    this.pagingAbort = new AbortController();
     this.isLoadingMore = false;
   }
 
+  /**
+   * True while photos newer than the cached ones are left to load (after a jump)
+   */
+  get hasNewerPhotos(): boolean {
+    return this.newerDays.length > 0;
+  }
+
+  /**
+   * Restart paging from an arbitrary date and time: loads the target's UTC day
+   * (and neighbouring days until a photo is found), older days then load with getOlderPhotos
+   * and newer days with getNewerPhotos
+   * @param target Date and time to jump to (clamped to the date range)
+   * @param startDate Oldest photo to page to (default: 2 years back)
+   * @param endDate Newest photo to page to (default: today)
+   * @param filter Only page photos passing this filter (default: all photos)
+   */
+  async jumpTo(target: Date, startDate?: Date, endDate?: Date, filter: PhotoFilter = {}): Promise<PhotoJump> {
+    this.clearCache(startDate, endDate, filter);
+
+    const time = Math.min(Math.max(target.getTime(), startDate?.getTime() ?? -Infinity), (endDate ?? new Date()).getTime());
+    const targetDay = new Date(time);
+    targetDay.setUTCHours(0, 0, 0, 0);
+
+    // Split the days of the range at the target day: it and older days load downward, newer days upward
+    const dayIndex = this.pendingDays.findIndex(day => day.getTime() <= targetDay.getTime());
+    const splitIndex = dayIndex < 0 ? this.pendingDays.length : dayIndex;
+    this.newerDays = this.pendingDays.slice(0, splitIndex).reverse();
+    this.pendingDays = this.pendingDays.slice(splitIndex);
+    this.hasMorePhotos = this.pendingDays.length > 0;
+
+    await this.loadMoreDaysFromS3();
+
+    // Empty day (camera off...): widen the search on both sides
+    for (let i = 0; i < this.MAX_SEARCH_DAYS && this.photoCache.length === 0; i++) {
+      await this.loadMoreDaysFromS3();
+      await this.loadNewerDay();
+    }
+
+    const selected = this.photoCache.reduce<Photo | null>((nearest, photo) =>
+      !nearest || Math.abs(photo.timestamp.getTime() - time) < Math.abs(nearest.timestamp.getTime() - time)
+        ? photo
+        : nearest, null);
+
+    console.log(`Jumped to ${new Date(time).toISOString()}: ${this.photoCache.length} photos loaded`);
+
+    return {
+      photos: [...this.photoCache],
+      selected,
+      hasOlder: this.hasMorePhotos,
+      hasNewer: this.hasNewerPhotos
+    };
+  }
+
+  /**
+   * Get the next photos older than a listed photo, loading older days as needed
+   * @param after Oldest photo shown so far
+   */
+  async getOlderPhotos(after: Photo, pageSize = 30): Promise<PhotoPage> {
+    const afterIndex = this.photoCache.findIndex(photo => photo.key === after.key);
+    if (afterIndex < 0) {
+      return { photos: [], hasMore: false }; // Not from the current listing (range changed)
+    }
+
+    const startIndex = afterIndex + 1;
+    const endIndex = startIndex + pageSize;
+    const complete = await this.loadOlderDays(endIndex);
+
+    return {
+      photos: this.photoCache.slice(startIndex, endIndex),
+      hasMore: endIndex < this.photoCache.length || this.hasMorePhotos,
+      searchedBackTo: complete ? undefined : this.oldestLoadedDay
+    };
+  }
+
+  /**
+   * Get the photos just newer than a listed photo (after a jump), loading newer days as needed
+   * @param before Newest photo shown so far
+   */
+  async getNewerPhotos(before: Photo, pageSize = 30): Promise<PhotoPage> {
+    const indexOfBefore = () => this.photoCache.findIndex(photo => photo.key === before.key);
+    if (indexOfBefore() < 0) {
+      return { photos: [], hasMore: false }; // Not from the current listing (range changed)
+    }
+
+    for (let days = 0; days < this.MAX_SEARCH_DAYS && indexOfBefore() < pageSize && this.hasNewerPhotos && !this.isLoadingMore;
+         days++) {
+      await this.loadNewerDay();
+    }
+
+    const endIndex = indexOfBefore();
+    const startIndex = Math.max(endIndex - pageSize, 0);
+
+    return {
+      photos: this.photoCache.slice(startIndex, endIndex),
+      hasMore: startIndex > 0 || this.hasNewerPhotos
+    };
+  }
+
   /**
    * Get a page of photos with infinite scroll support
    * Strategy:
-   * 1. Load photos day-by-day going backwards from today
+   * 1. Load photos day-by-day going backwards from the range end (default: today)
    * 2. Keep cache sorted newest-first
-   * 3. Load more days as needed when scrolling
+   * 3. Load more days as needed when scrolling, stopping at the range start
    *
    * @param pageSize Number of photos per page (default: 30)
    * @param pageIndex Which page to return (0-indexed)
+   * @param startDate Oldest photo to return (default: no limit)
+   * @param endDate Newest photo to return (default: no limit)
+   * @param filter Only return photos passing this filter, e.g. favorites (default: all photos)
    * @returns PhotoPage with photos and continuation info
    */
   async getPhotosPage(
     pageSize: number = 30,
-    pageIndex: number = 0
+    pageIndex: number = 0,
+    startDate?: Date,
+    endDate?: Date,
+    filter: PhotoFilter = {}
   ): Promise<PhotoPage> {
     const startIndex = pageIndex * pageSize;
     const endIndex = startIndex + pageSize;
 
-    // Load more days if we don't have enough photos cached
-    while (this.photoCache.length < endIndex && this.hasMorePhotos && !this.isLoadingMore) {
-      await this.loadMoreDaysFromS3();
+    // Cached pages belong to another date range or filter, start over
+    if (startDate?.getTime() !== this.rangeStart?.getTime() || endDate?.getTime() !== this.rangeEnd?.getTime() ||
+        !this.isSameFilter(filter, this.filter)) {
+      this.clearCache(startDate, endDate, filter);
     }
 
+    // Load more days if we don't have enough photos cached (filtered days may add few)
+    const complete = await this.loadOlderDays(endIndex);
+
     // Return page from cache
     const photos = this.photoCache.slice(startIndex, endIndex);
     const hasMore = endIndex < this.photoCache.length || this.hasMorePhotos;
@@ -305,107 +737,139 @@ export class PhotoService {
     return {
       photos,
       continuationToken: hasMore ? (pageIndex + 1).toString() : undefined,
-      hasMore
+      hasMore,
+      searchedBackTo: complete ? undefined : this.oldestLoadedDay
     };
   }
 
   /**
-   * Load more days worth of photos from S3 into the cache
-   * Loads one day at a time, going backwards, handling month/year boundaries
+   * Load older days until the cache holds enough photos, MAX_SEARCH_DAYS days at most
+   * @returns False when stopped by the limit with older days left
+   */
+  private async loadOlderDays(photoCount: number): Promise<boolean> {
+    for (let days = 0; this.photoCache.length < photoCount && this.hasMorePhotos && !this.isLoadingMore; days++) {
+      if (days === this.MAX_SEARCH_DAYS) {
+        console.log(`Searched ${days} days back to ${this.oldestLoadedDay?.toISOString().substring(0, 10)}, returning a partial page`);
+        return false;
+      }
+      await this.loadMoreDaysFromS3();
+    }
+    return true;
+  }
+
+  private isSameFilter(a: PhotoFilter, b: PhotoFilter): boolean {
+    return !!a.favoritesOnly === !!b.favoritesOnly && (a.tag ?? '') === (b.tag ?? '') &&
+      !!a.hideDark === !!b.hideDark && !!a.hideBlurry === !!b.hideBlurry &&
+      (a.minQualityScore ?? 0) === (b.minQualityScore ?? 0) && !!a.bestPerHour === !!b.bestPerHour &&
+      !!a.changedOnly === !!b.changedOnly;
+  }
+
+  /**
+   * Load more days worth of photos from the photo store into the cache
+   * Loads one UTC day at a time, going backwards through the date range
    */
   private async loadMoreDaysFromS3(): Promise<void> {
     if (this.isLoadingMore || !this.hasMorePhotos) {
       return;
     }
 
+    const signal = this.pagingAbort.signal;
     try {
       this.isLoadingMore = true;
 
-      // Generate prefix for current date
-      const year = this.currentDate.getUTCFullYear();
-      const month = String(this.currentDate.getUTCMonth() + 1).padStart(2, '0');
-      const day = String(this.currentDate.getUTCDate()).padStart(2, '0');
-      const prefix = `cat_${year}${month}${day}_`;
+      // Next day, going backwards
+      await this.loadDayIntoCache(this.pendingDays[0], signal);
+      signal.throwIfAborted();
 
-      console.log(`Loading photos for ${year}-${month}-${day} (prefix: ${prefix})`);
+      // Move to previous day for next load
+      this.oldestLoadedDay = this.pendingDays.shift();
 
-      // Fetch all photos for this day (using continuation tokens if needed)
-      const dayObjects: any[] = [];
-      let continuationToken: string | undefined = undefined;
+      // Stop once the start of the range (or 2 years back) is reached
+      if (this.pendingDays.length === 0) {
+        this.hasMorePhotos = false;
+        console.log('Reached start of date range, stopping');
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        console.error('Error loading more days from S3:', error);
+      }
+      throw error;
+    } finally {
+      // A cancelled load must not clear the flag of the view that replaced it
+      if (!signal.aborted) {
+        this.isLoadingMore = false;
+      }
+    }
+  }
 
-      while (true) {
-        const response = await this.s3Service.listObjects(prefix, 1000, continuationToken);
+  /**
+   * Load the next newer day (after a jump) into the cache
+   */
+  private async loadNewerDay(): Promise<void> {
+    if (this.isLoadingMore || !this.hasNewerPhotos) {
+      return;
+    }
 
-        if (response.Contents && response.Contents.length > 0) {
-          dayObjects.push(...response.Contents);
-        }
+    const signal = this.pagingAbort.signal;
+    try {
+      this.isLoadingMore = true;
+      await this.loadDayIntoCache(this.newerDays[0], signal);
+      signal.throwIfAborted();
 
-        if (response.IsTruncated && response.NextContinuationToken) {
-          continuationToken = response.NextContinuationToken;
-        } else {
-          break;
-        }
+      // Only dropped once loaded, so a failed day is retried
+      this.newerDays.shift();
+    } finally {
+      if (!signal.aborted) {
+        this.isLoadingMore = false;
       }
+    }
+  }
 
-      // Filter to .jpg files only
-      const photoObjects = dayObjects.filter(obj => {
-        const key = obj.Key || '';
-        const fileName = key.split('/').pop() || '';
-        return this.PHOTO_PATTERN.test(fileName);
-      });
-
-      console.log(`Found ${photoObjects.length} photos for ${year}-${month}-${day}`);
-
-      // Convert to Photo objects with pre-signed URLs
-      const newPhotos: Photo[] = await Promise.all(
-        photoObjects.map(async obj => {
-          const key = obj.Key!;
-          const fileName = key.split('/').pop()!;
-          const timestamp = this.parseFileName(fileName)!;
-          const url = await this.s3Service.getPresignedUrl(key);
-
-          return {
-            key,
-            fileName,
-            timestamp,
-            url,
-            size: obj.Size
-          };
-        })
-      );
-
-      // Append to cache, deduplicate by key, and sort (newest first)
-      this.photoCache.push(...newPhotos);
-
-      // Deduplicate by key (in case of concurrent loads)
-      const seen = new Set<string>();
-      this.photoCache = this.photoCache.filter(photo => {
-        if (seen.has(photo.key)) {
-          return false;
-        }
-        seen.add(photo.key);
-        return true;
-      });
+  /**
+   * Add a UTC day's photos (inside the date range and passing the filter) from every active camera to the cache
+   * @param signal Paged view loading the day: once aborted, nothing is added to the (new view's) cache
+   */
+  private async loadDayIntoCache(day: Date, signal: AbortSignal): Promise<void> {
+    console.log(`Loading photos for ${day.toISOString().substring(0, 10)}`);
+
+    // Fetch all photos for this day from every camera (using continuation tokens if needed)
+    const dayObjects = (await Promise.all(
+      this.deviceService.getActiveDevices().map(device => this.listDayObjects(day, device, signal))
+    )).flat();
+
+    // Convert photos inside the date range to Photo objects
+    const dayPhotos = this.toPhotos(dayObjects, timestamp =>
+      (!this.rangeStart || timestamp >= this.rangeStart) &&
+      (!this.rangeEnd || timestamp <= this.rangeEnd)
+    );
 
-      this.photoCache.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    // A UTC day holds whole hours, so the best photo of each hour can be picked per day
+    const newPhotos = await this.filterPhotos(dayPhotos, this.filter, signal);
+    signal.throwIfAborted();
 
-      console.log(`Cache now has ${this.photoCache.length} photos total`);
+    console.log(`Found ${newPhotos.length} photos for ${day.toISOString().substring(0, 10)}`);
 
-      // Move to previous day for next load
-      this.currentDate.setUTCDate(this.currentDate.getUTCDate() - 1);
+    this.mergeIntoCache(newPhotos);
 
-      // Stop if we've gone back too far (e.g., 2 years)
-      const twoYearsAgo = new Date();
-      twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
-      if (this.currentDate < twoYearsAgo) {
-        this.hasMorePhotos = false;
-        console.log('Reached 2 years back, stopping');
+    console.log(`Cache now has ${this.photoCache.length} photos total`);
+  }
+
+  /**
+   * Append photos to the cache, deduplicate by key, and sort (newest first)
+   */
+  private mergeIntoCache(photos: Photo[]) {
+    this.photoCache.push(...photos);
+
+    // Deduplicate by key (in case of concurrent loads)
+    const seen = new Set<string>();
+    this.photoCache = this.photoCache.filter(photo => {
+      if (seen.has(photo.key)) {
+        return false;
       }
-    } catch (error) {
-      console.error('Error loading more days from S3:', error);
-      throw error;
-    } finally {
-      this.isLoadingMore = false;
-    }
+      seen.add(photo.key);
+      return true;
+    });
+
+    this.photoCache.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
 }
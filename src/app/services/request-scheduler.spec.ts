@@ -0,0 +1,61 @@
+import { RequestCancelledError, RequestScheduler, isRetryableError } from './request-scheduler';
+
+describe('RequestScheduler', () => {
+  let scheduler: RequestScheduler;
+
+  beforeEach(() => {
+    scheduler = new RequestScheduler({ maxInFlight: 2, maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 });
+  });
+
+  it('should limit the requests in flight', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const run = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    };
+
+    await Promise.all([1, 2, 3, 4, 5].map(i => scheduler.schedule('Test', `key${i}`, run)));
+
+    expect(maxRunning).toEqual(2);
+    expect(scheduler.stats$.getValue().total).toEqual(5);
+  });
+
+  it('should retry retryable errors only', async () => {
+    let attempts = 0;
+    const result = await scheduler.schedule('Test', 'key', async () => {
+      if (++attempts < 3) throw { name: 'SlowDown' };
+      return 'ok';
+    });
+
+    expect(result).toEqual('ok');
+    expect(scheduler.stats$.getValue().retries).toEqual(2);
+
+    await expectAsync(scheduler.schedule('Test', 'key', async () => {
+      throw { name: 'AccessDenied' };
+    })).toBeRejected();
+    expect(scheduler.stats$.getValue().failed).toEqual(1);
+  });
+
+  it('should cancel queued requests', async () => {
+    const controller = new AbortController();
+    const never = () => new Promise<void>(() => undefined);
+
+    const running = [scheduler.schedule('Test', 'a', never), scheduler.schedule('Test', 'b', never)];
+    const queued = scheduler.schedule('Test', 'c', never, controller.signal);
+    controller.abort();
+
+    await expectAsync(queued).toBeRejectedWithError(RequestCancelledError);
+    scheduler.cancelAll();
+    await Promise.all(running.map(request => expectAsync(request).toBeRejectedWithError(RequestCancelledError)));
+    expect(scheduler.stats$.getValue().cancelled).toEqual(3);
+  });
+
+  it('should classify errors', () => {
+    expect(isRetryableError({ $metadata: { httpStatusCode: 503 } })).toBeTrue();
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBeTrue();
+    expect(isRetryableError({ name: 'NoSuchKey', $metadata: { httpStatusCode: 404 } })).toBeFalse();
+  });
+});
@@ -0,0 +1,265 @@
+import { BehaviorSubject } from 'rxjs';
+
+export interface RequestSchedulerOptions {
+  maxInFlight: number; // Requests running at the same time, the rest wait in a queue
+  maxRetries: number; // Retries of a retryable failure (throttling, 5xx, network)
+  baseDelayMs: number; // First backoff delay, doubled on every retry
+  maxDelayMs: number; // Upper bound of a backoff delay
+}
+
+export type RequestStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * One scheduled request, as exposed by the stats
+ */
+export interface RequestRecord {
+  id: number;
+  operation: string; // e.g. "ListObjectsV2"
+  target: string; // Key or prefix
+  status: RequestStatus;
+  attempts: number;
+  queuedMs: number; // Time spent waiting for a free slot
+  durationMs: number; // Time from the first attempt to completion (including backoff)
+  error?: string;
+}
+
+export interface RequestStats {
+  total: number;
+  inFlight: number;
+  queued: number;
+  retries: number;
+  failed: number;
+  cancelled: number;
+  byOperation: Record<string, number>; // Requests per operation
+  recent: RequestRecord[]; // Latest requests, newest first
+}
+
+/**
+ * Error of a request cancelled before it completed
+ */
+export class RequestCancelledError extends Error {
+  override name = 'AbortError';
+
+  constructor(target: string) {
+    super(`Request cancelled: ${target}`);
+  }
+}
+
+/**
+ * Fields of AWS SDK (and browser fetch) errors used to classify failures
+ */
+export interface RequestError {
+  name?: string;
+  message?: string;
+  Code?: string;
+  $retryable?: unknown;
+  $metadata?: { httpStatusCode?: number };
+}
+
+interface QueuedRequest {
+  record: RequestRecord;
+  enqueuedAt: number;
+  startedAt?: number;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  controller: AbortController;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+// Error names/codes worth retrying (throttling and transient server errors)
+const RETRYABLE_ERRORS = new Set([
+  'SlowDown', 'Throttling', 'ThrottlingException', 'TooManyRequestsException', 'RequestLimitExceeded',
+  'RequestTimeout', 'RequestTimeoutException', 'InternalError', 'ServiceUnavailable', 'TimeoutError',
+  'NetworkingError'
+]);
+
+/**
+ * True for failures a later attempt may not hit: throttling, 5xx responses and network errors
+ */
+export function isRetryableError(error: unknown): boolean {
+  const requestError = error as RequestError | undefined;
+  if (!requestError || requestError.name === 'AbortError') return false;
+
+  const status = requestError.$metadata?.httpStatusCode;
+  return RETRYABLE_ERRORS.has(requestError.name ?? '') ||
+    RETRYABLE_ERRORS.has(requestError.Code ?? '') ||
+    !!requestError.$retryable ||
+    (status !== undefined && (status === 429 || status >= 500)) ||
+    (error instanceof TypeError && /fetch|network/i.test(error.message)); // Browser network failure
+}
+
+/**
+ * Queue limiting concurrent requests, retrying retryable failures with exponential backoff and full jitter
+ * Requests can be cancelled (queued or running) with an AbortSignal, or all at once with cancelAll
+ */
+export class RequestScheduler {
+  private readonly MAX_RECENT = 100;
+
+  private queue: QueuedRequest[] = [];
+  private running = new Set<QueuedRequest>();
+  private nextId = 1;
+  private stats: RequestStats = this.emptyStats();
+
+  public readonly stats$ = new BehaviorSubject<RequestStats>(this.emptyStats());
+
+  constructor(private options: RequestSchedulerOptions) { }
+
+  /**
+   * Run a request once a slot is free
+   * @param run Performs the request, must honour the signal (e.g. pass it as the SDK's abortSignal)
+   * @param signal Cancels the request (rejects with a RequestCancelledError)
+   */
+  schedule<T>(operation: string, target: string, run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const record: RequestRecord = {
+      id: this.nextId++,
+      operation,
+      target,
+      status: 'queued',
+      attempts: 0,
+      queuedMs: 0,
+      durationMs: 0
+    };
+
+    this.stats.total++;
+    this.stats.byOperation[operation] = (this.stats.byOperation[operation] ?? 0) + 1;
+    this.stats.recent = [record, ...this.stats.recent].slice(0, this.MAX_RECENT);
+
+    return new Promise<T>((resolve, reject) => {
+      const request: QueuedRequest = {
+        record,
+        enqueuedAt: Date.now(),
+        run,
+        controller: new AbortController(),
+        resolve: resolve as (value: unknown) => void,
+        reject
+      };
+
+      if (signal?.aborted) {
+        this.cancel(request);
+        return;
+      }
+      signal?.addEventListener('abort', () => this.cancel(request), { once: true });
+
+      this.queue.push(request);
+      this.pump();
+    });
+  }
+
+  /**
+   * Cancel all queued and running requests (e.g. on logout)
+   */
+  cancelAll() {
+    [...this.queue, ...this.running].forEach(request => this.cancel(request));
+  }
+
+  /**
+   * Reset the counters, e.g. before loading a view to measure its cost
+   */
+  resetStats() {
+    this.stats = {
+      ...this.emptyStats(),
+      inFlight: this.running.size,
+      queued: this.queue.length
+    };
+    this.publish();
+  }
+
+  private pump() {
+    while (this.running.size < this.options.maxInFlight && this.queue.length > 0) {
+      const request = this.queue.shift()!;
+      this.running.add(request);
+      this.execute(request);
+    }
+    this.publish();
+  }
+
+  private async execute(request: QueuedRequest) {
+    const { record, controller } = request;
+
+    request.startedAt = Date.now();
+    record.status = 'running';
+    record.queuedMs = request.startedAt - request.enqueuedAt;
+    this.publish();
+
+    try {
+      while (true) {
+        record.attempts++;
+
+        try {
+          const result = await request.run(controller.signal);
+          this.finish(request, 'done');
+          request.resolve(result);
+          return;
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return; // Already rejected by cancel()
+          }
+          if (record.attempts > this.options.maxRetries || !isRetryableError(error)) {
+            throw error;
+          }
+
+          this.stats.retries++;
+          const delay = this.getBackoffDelay(record.attempts);
+          console.warn(`${record.operation} ${record.target}: ${(error as RequestError).name}, retry ${record.attempts} in ${delay}ms`);
+          await this.sleep(delay, controller.signal);
+
+          if (controller.signal.aborted) return;
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      record.error = (error as RequestError)?.name || String(error);
+      this.stats.failed++;
+      this.finish(request, 'failed');
+      request.reject(error);
+    }
+  }
+
+  private cancel(request: QueuedRequest) {
+    if (request.record.status === 'done' || request.record.status === 'failed' || request.record.status === 'cancelled') {
+      return;
+    }
+
+    request.controller.abort();
+    this.queue = this.queue.filter(queued => queued !== request);
+    this.stats.cancelled++;
+    this.finish(request, 'cancelled');
+    request.reject(new RequestCancelledError(request.record.target));
+  }
+
+  private finish(request: QueuedRequest, status: RequestStatus) {
+    request.record.status = status;
+    request.record.durationMs = request.startedAt ? Date.now() - request.startedAt : 0;
+    this.running.delete(request);
+    this.pump();
+  }
+
+  /**
+   * Exponential backoff with full jitter: random delay up to base * 2^(attempt - 1), capped
+   */
+  private getBackoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timeout = setTimeout(resolve, ms);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timeout);
+        resolve();
+      }, { once: true });
+    });
+  }
+
+  private publish() {
+    this.stats.inFlight = this.running.size;
+    this.stats.queued = this.queue.length;
+    this.stats$.next({ ...this.stats, byOperation: { ...this.stats.byOperation } });
+  }
+
+  private emptyStats(): RequestStats {
+    return { total: 0, inFlight: 0, queued: 0, retries: 0, failed: 0, cancelled: 0, byOperation: {}, recent: [] };
+  }
+}
@@ -0,0 +1,80 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { S3Service } from './s3.service';
+import { RequestError, RequestStats } from './request-scheduler';
+import { PhotoStore, StoredObject, StoredObjectPage } from './photo-store';
+
+/**
+ * PhotoStore backed by the S3 bucket (default backend)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class S3PhotoStore implements PhotoStore {
+  readonly writable = true;
+  readonly requestStats$: Observable<RequestStats>;
+
+  constructor(private s3Service: S3Service) {
+    this.requestStats$ = s3Service.requestStats$;
+  }
+
+  resolveKey(name: string, folder?: string): string {
+    return `${folder ?? this.s3Service.getBucketFolder()}/${name}`;
+  }
+
+  async list(
+    prefix?: string, maxKeys?: number, continuationToken?: string, folder?: string, signal?: AbortSignal
+  ): Promise<StoredObjectPage> {
+    const response = await this.s3Service.listObjects(prefix, maxKeys, continuationToken, folder, signal);
+
+    const objects: StoredObject[] = (response.Contents || [])
+      .filter(obj => !!obj.Key)
+      .map(obj => ({
+        key: obj.Key!,
+        size: obj.Size,
+        lastModified: obj.LastModified
+      }));
+
+    return {
+      objects,
+      continuationToken: response.IsTruncated ? response.NextContinuationToken : undefined
+    };
+  }
+
+  getUrl(key: string, renew?: boolean): Promise<string> {
+    return this.s3Service.getPresignedUrl(key, renew);
+  }
+
+  async getText(key: string): Promise<string | undefined> {
+    try {
+      const response = await this.s3Service.getObject(key);
+      return await response.Body?.transformToString();
+    } catch (error) {
+      const requestError = error as RequestError | undefined;
+      if (requestError?.name === 'NoSuchKey' || requestError?.$metadata?.httpStatusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  putText(key: string, body: string, contentType = 'text/plain'): Promise<void> {
+    return this.s3Service.putObject(key, body, contentType);
+  }
+
+  copy(sourceKey: string, destinationKey: string): Promise<void> {
+    return this.s3Service.copyObject(sourceKey, destinationKey);
+  }
+
+  delete(keys: string[]): Promise<void> {
+    return this.s3Service.deleteObjects(keys);
+  }
+
+  clearCaches(): void {
+    this.s3Service.clearCaches();
+  }
+
+  resetRequestStats(): void {
+    this.s3Service.resetRequestStats();
+  }
+}
@@ -1,8 +1,15 @@
 import { Injectable } from '@angular/core';
-import { S3Client, ListObjectsV2Command, GetObjectCommand, ListObjectsV2CommandOutput } from '@aws-sdk/client-s3';
+import { Observable } from 'rxjs';
+import {
+  S3Client, ListObjectsV2Command, GetObjectCommand, PutObjectCommand, CopyObjectCommand, DeleteObjectsCommand, ListObjectsV2CommandOutput
+} from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { environment } from '../../environments/environment.development';
 import { CognitoAuthService } from './cognito-auth.service';
+import { RequestScheduler, RequestStats } from './request-scheduler';
+
+// Errors of requests signed with expired or revoked credentials
+const CREDENTIAL_ERRORS = ['ExpiredToken', 'ExpiredTokenException', 'InvalidAccessKeyId', 'InvalidToken'];
 
 @Injectable({
   providedIn: 'root'
@@ -10,7 +17,18 @@ import { CognitoAuthService } from './cognito-auth.service';
 export class S3Service {
   private bucketName: string;
   private bucketFolder: string;
+  private client: S3Client | null = null;
   private urlCache: Map<string, { url: string, expires: number }> = new Map();
+  // Don't hand out URLs about to expire: 5 minutes before, or the last fifth of short lifetimes
+  private readonly urlRenewMarginMs = Math.min(5 * 60 * 1000, environment.aws.urlExpirySeconds * 1000 / 5);
+
+  // Every S3 call goes through the scheduler (limits parallel requests, retries throttling/5xx/network errors)
+  private scheduler = new RequestScheduler({
+    maxInFlight: 6,
+    maxRetries: 4,
+    baseDelayMs: 300,
+    maxDelayMs: 8000
+  });
 
   constructor(
     private cognitoAuthService: CognitoAuthService
@@ -31,29 +49,91 @@ export class S3Service {
    * Clears all caches (useful when logging out)
    */
   clearCaches(): void {
+    this.scheduler.cancelAll();
     this.urlCache.clear();
-    this.cognitoAuthService.clearCredentials();
+    this.resetS3Client();
   }
 
   /**
-   * Gets or creates the S3 client with Cognito credentials
+   * Counters of the requests sent (per operation, retries, failures...) and the latest requests
    */
-  private async getS3Client(): Promise<S3Client> {
-    // Use Cognito credentials - always create a new client to ensure fresh credentials
-    const credentials = await this.cognitoAuthService.getAwsCredentials();
+  get requestStats$(): Observable<RequestStats> {
+    return this.scheduler.stats$.asObservable();
+  }
 
-    return new S3Client({
-      region: environment.aws.region,
-      credentials: credentials
-    });
+  /**
+   * Reset the request counters when switching view, to show what each view costs
+   */
+  resetRequestStats(): void {
+    this.scheduler.resetStats();
+  }
+
+  /**
+   * Folder of the bucket the camera writes to (prepended to listing prefixes)
+   */
+  getBucketFolder(): string {
+    return this.bucketFolder;
+  }
+
+  /**
+   * Gets or creates the S3 client
+   * The client is reused: its Cognito credential provider refreshes credentials before they expire
+   */
+  private getS3Client(): S3Client {
+    if (!this.client) {
+      this.client = new S3Client({
+        region: environment.aws.region,
+        credentials: this.cognitoAuthService.credentialProvider,
+        maxAttempts: 1 // Retries are done by the scheduler
+      });
+    }
+    return this.client;
+  }
+
+  /**
+   * Drop the client along with the credentials it memoized
+   */
+  private resetS3Client(): void {
+    this.client?.destroy();
+    this.client = null;
+    this.cognitoAuthService.clearCredentials();
+  }
+
+  /**
+   * Send a request with the S3 client, re-authenticating and retrying exactly once
+   * when S3 rejects the credentials (expired or revoked session)
+   */
+  private async withS3Client<T>(request: (client: S3Client) => Promise<T>): Promise<T> {
+    const client = this.getS3Client();
+    try {
+      return await request(client);
+    } catch (error) {
+      if (!CREDENTIAL_ERRORS.includes((error as { name?: string })?.name ?? '')) {
+        throw error;
+      }
+
+      // Concurrent failures share one re-authentication: only the first resets the client they used
+      if (this.client === client) {
+        console.warn('S3 rejected the credentials, refreshing them and retrying once');
+        this.resetS3Client();
+      }
+      return await request(this.getS3Client());
+    }
   }
 
   /**
    * List objects in the S3 bucket with optional prefix filter
-   * Automatically prepends the bucket folder to the prefix
+   * Automatically prepends the folder (default: the configured bucket folder) to the prefix
+   * @param signal Cancels the request, queued or running (e.g. the view that needed it changed)
    */
-  async listObjects(prefix?: string, maxKeys?: number, continuationToken?: string): Promise<ListObjectsV2CommandOutput> {
-    const fullPrefix = prefix ? `${this.bucketFolder}/${prefix}` : this.bucketFolder;
+  async listObjects(
+    prefix?: string,
+    maxKeys?: number,
+    continuationToken?: string,
+    folder: string = this.bucketFolder,
+    signal?: AbortSignal
+  ): Promise<ListObjectsV2CommandOutput> {
+    const fullPrefix = prefix ? `${folder}/${prefix}` : folder;
 
     const command = new ListObjectsV2Command({
       Bucket: this.bucketName,
@@ -62,47 +142,38 @@ export class S3Service {
       ContinuationToken: continuationToken
     });
 
-    const client = await this.getS3Client();
-    return await client.send(command);
-  }
-
-  /**
-   * List objects with multiple prefixes in parallel
-   * Useful for date-based prefix filtering
-   */
-  async listObjectsWithPrefixes(prefixes: string[], maxKeysPerPrefix: number = 1000): Promise<ListObjectsV2CommandOutput[]> {
-    const results = await Promise.all(
-      prefixes.map(prefix => this.listObjects(prefix, maxKeysPerPrefix))
-    );
-    return results;
+    return await this.scheduler.schedule('ListObjectsV2', fullPrefix, abortSignal =>
+      this.withS3Client(client => client.send(command, { abortSignal })), signal);
   }
 
   /**
    * Get a pre-signed URL for an object (for direct browser access)
-   * URLs are cached and valid for 1 hour
+   * URLs are cached and valid for environment.aws.urlExpirySeconds; a new one is signed
+   * shortly before the cached one expires, or right away when renew is set (e.g. after a 403)
    */
-  async getPresignedUrl(key: string): Promise<string> {
+  async getPresignedUrl(key: string, renew = false): Promise<string> {
     // Check cache first
     const cached = this.urlCache.get(key);
     const now = Date.now();
 
-    if (cached && cached.expires > now) {
+    if (!renew && cached && cached.expires - this.urlRenewMarginMs > now) {
       return cached.url;
     }
 
-    // Generate new pre-signed URL (valid for 1 hour)
     const command = new GetObjectCommand({
       Bucket: this.bucketName,
       Key: key
     });
 
-    const client = await this.getS3Client();
-    const url = await getSignedUrl(client, command, { expiresIn: 3600 });
+    // Signing needs no request, but credentials may have to be fetched first
+    const expiresIn = environment.aws.urlExpirySeconds;
+    const url = await this.scheduler.schedule('Presign', key, () =>
+      getSignedUrl(this.getS3Client(), command, { expiresIn }));
 
     // Cache the URL
     this.urlCache.set(key, {
       url,
-      expires: now + (3600 * 1000) // 1 hour from now
+      expires: now + (expiresIn * 1000)
     });
 
     //console.log('Generated pre-signed URL for:', key);
@@ -111,15 +182,70 @@ export class S3Service {
 
   /**
    * Get object data from S3
+   * @param signal Cancels the request, queued or running
    */
-  async getObject(key: string): Promise<any> {
+  async getObject(key: string, signal?: AbortSignal): Promise<any> {
     const command = new GetObjectCommand({
       Bucket: this.bucketName,
       Key: key
     });
 
-    const client = await this.getS3Client();
-    const response = await client.send(command);
-    return response;
+    return await this.scheduler.schedule('GetObject', key, abortSignal =>
+      this.withS3Client(client => client.send(command, { abortSignal })), signal);
+  }
+
+  /**
+   * Create or replace an object in S3
+   */
+  async putObject(key: string, body: string, contentType: string): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      Body: body,
+      ContentType: contentType
+    });
+
+    await this.scheduler.schedule('PutObject', key, abortSignal =>
+      this.withS3Client(client => client.send(command, { abortSignal })));
+  }
+
+  /**
+   * Copy an object inside the bucket
+   */
+  async copyObject(sourceKey: string, destinationKey: string): Promise<void> {
+    const command = new CopyObjectCommand({
+      Bucket: this.bucketName,
+      CopySource: `${this.bucketName}/${encodeURIComponent(sourceKey)}`,
+      Key: destinationKey
+    });
+
+    await this.scheduler.schedule('CopyObject', sourceKey, abortSignal =>
+      this.withS3Client(client => client.send(command, { abortSignal })));
+  }
+
+  /**
+   * Delete objects (up to 1000 per request); keys that don't exist are ignored
+   */
+  async deleteObjects(keys: string[]): Promise<void> {
+    const BATCH_SIZE = 1000;
+
+    for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+      const batch = keys.slice(i, i + BATCH_SIZE);
+      const command = new DeleteObjectsCommand({
+        Bucket: this.bucketName,
+        Delete: {
+          Objects: batch.map(key => ({ Key: key })),
+          Quiet: true // Only report failures
+        }
+      });
+
+      const response = await this.scheduler.schedule('DeleteObjects', batch[0], abortSignal =>
+        this.withS3Client(client => client.send(command, { abortSignal })));
+
+      if (response.Errors?.length) {
+        const first = response.Errors[0];
+        throw new Error(`Could not delete ${response.Errors.length} object(s), e.g. ${first.Key}: ${first.Code} ${first.Message ?? ''}`);
+      }
+    }
   }
 }
@@ -0,0 +1,39 @@
+import { SensorDataPoint, formatSensorSeries, formatTimestamp, markReboots } from './sensor-series';
+
+describe('sensor series', () => {
+  const points = (): SensorDataPoint[] => [
+    { timestamp: new Date('2025-10-30T12:00:00Z'), deviceId: 'porch', photoKey: 'porch/cat_20251030_120000.jpg', temperature: 21.5, humidity: 45, blanketOn: true, catPresent: false, uptime: 7200 },
+    { timestamp: new Date('2025-10-30T12:10:00Z'), deviceId: 'porch', photoKey: 'porch/cat_20251030_121000.jpg', temperature: 21, humidity: 46, blanketOn: false, catPresent: true, uptime: 30,
+      quality: { brightness: 120, contrast: 40, qualityScore: 0.8, sharpness: 12.5 } }
+  ];
+
+  it('should flag reboots per camera', () => {
+    const series = [...points(), { timestamp: new Date('2025-10-30T12:20:00Z'), deviceId: 'garage', uptime: 10 }];
+    markReboots(series);
+
+    expect(series.map(point => point.isReboot)).toEqual([false, true, false]);
+  });
+
+  it('should write CSV with one row per point', () => {
+    const series = points();
+    markReboots(series);
+    const lines = formatSensorSeries(series, 'csv', 'utc').trim().split('\r\n');
+
+    expect(lines.length).toEqual(3);
+    expect(lines[0]).toContain('timestamp,camera,photo,temperature_celsius');
+    expect(lines[2]).toEqual('2025-10-30T12:10:00Z,porch,cat_20251030_121000.jpg,21,46,false,true,30,true,,120,40,0.8,12.5');
+  });
+
+  it('should write JSON and NDJSON records', () => {
+    expect(JSON.parse(formatSensorSeries(points(), 'json', 'utc'))[0].temperature_celsius).toEqual(21.5);
+    expect(formatSensorSeries(points(), 'ndjson', 'utc').trim().split('\n').map(line => JSON.parse(line).humidity_percent)).toEqual([45, 46]);
+  });
+
+  it('should write local timestamps with their offset', () => {
+    const date = new Date('2025-10-30T12:00:00Z');
+    const local = formatTimestamp(date, 'local');
+
+    expect(local).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}[+-]\d{2}:\d{2}$/);
+    expect(new Date(local).getTime()).toEqual(date.getTime());
+  });
+});
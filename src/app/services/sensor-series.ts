@@ -0,0 +1,140 @@
+import { PhotoMetadata } from './metadata.service';
+import { PresenceSample, VisitPhoto, isCatPresent } from './visit-segmentation';
+
+/**
+ * Sensor readings of one photo, as charted by PhotoGraphsComponent and exported
+ */
+export interface SensorDataPoint {
+  timestamp: Date;
+  deviceId?: string;
+  photoKey?: string;
+  temperature?: number | null; // null breaks the chart line at gaps
+  humidity?: number | null;
+  expectedTemperature?: number; // Firmware's estimate, used by the blanket control without a sensor
+  blanketOn?: boolean;
+  catPresent?: boolean;
+  uptime?: number;
+  isReboot?: boolean; // Uptime dropped since the camera's previous photo
+  bootAttempts?: number;
+  quality?: PhotoMetadata['image_quality_metrics'];
+}
+
+// A camera without photos for longer than this was offline: charts break their lines there
+export const MAX_READING_SECONDS = 60 * 60;
+
+export type SensorExportFormat = 'csv' | 'json' | 'ndjson';
+export type SensorTimeZone = 'utc' | 'local';
+
+const CSV_COLUMNS = [
+  'timestamp', 'camera', 'photo', 'temperature_celsius', 'humidity_percent', 'blanket_on', 'cat_present',
+  'uptime_seconds', 'reboot', 'boot_attempts', 'brightness', 'contrast', 'quality_score', 'sharpness'
+];
+
+/**
+ * Build a photo's data point from its metadata
+ */
+export function toSensorDataPoint(
+  photo: { key: string, timestamp: Date, deviceId: string },
+  metadata: PhotoMetadata
+): SensorDataPoint {
+  return {
+    timestamp: photo.timestamp,
+    deviceId: photo.deviceId,
+    photoKey: photo.key,
+    temperature: metadata.temperature_celsius,
+    humidity: metadata.humidity_percent,
+    expectedTemperature: metadata.expected_temperature_celsius,
+    blanketOn: metadata.blanket_on,
+    catPresent: isCatPresent(metadata),
+    uptime: metadata.uptime_seconds,
+    bootAttempts: metadata.boot_attempts,
+    quality: metadata.image_quality_metrics
+  };
+}
+
+/**
+ * Data points of photos with their metadata, oldest first, with reboots flagged
+ */
+export function toSensorSeries<T extends VisitPhoto>(samples: PresenceSample<T>[]): SensorDataPoint[] {
+  const points = samples
+    .map(sample => toSensorDataPoint(sample.photo, sample.metadata))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  markReboots(points);
+  return points;
+}
+
+/**
+ * Flag the points where a camera rebooted (its uptime went down)
+ * @param points Sorted by timestamp, oldest first
+ */
+export function markReboots(points: SensorDataPoint[]) {
+  const lastUptime = new Map<string | undefined, number>();
+
+  for (const point of points) {
+    if (point.uptime === undefined) continue;
+
+    const previous = lastUptime.get(point.deviceId);
+    point.isReboot = previous !== undefined && point.uptime < previous;
+    lastUptime.set(point.deviceId, point.uptime);
+  }
+}
+
+/**
+ * Serialize data points for download
+ * @param points Sorted by timestamp, oldest first
+ * @param timeZone 'utc' writes "2025-10-30T12:32:02Z", 'local' the browser's time with its offset
+ */
+export function formatSensorSeries(points: SensorDataPoint[], format: SensorExportFormat, timeZone: SensorTimeZone): string {
+  const records = points.map(point => toRecord(point, timeZone));
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(records, null, 2);
+    case 'ndjson':
+      return records.map(record => JSON.stringify(record)).join('\n') + '\n';
+    case 'csv':
+      return [CSV_COLUMNS.join(','), ...records.map(record =>
+        CSV_COLUMNS.map(column => toCsvField(record[column])).join(',')
+      )].join('\r\n') + '\r\n';
+  }
+}
+
+/**
+ * ISO 8601 timestamp in UTC or in local time with the offset, e.g. "2025-10-30T14:32:02+02:00"
+ */
+export function formatTimestamp(date: Date, timeZone: SensorTimeZone): string {
+  if (timeZone === 'utc') {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+
+  const pad = (value: number) => String(Math.floor(Math.abs(value))).padStart(2, '0');
+  const offset = -date.getTimezoneOffset();
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+    `${offset >= 0 ? '+' : '-'}${pad(offset / 60)}:${pad(offset % 60)}`;
+}
+
+function toRecord(point: SensorDataPoint, timeZone: SensorTimeZone): Record<string, string | number | boolean | null> {
+  return {
+    timestamp: formatTimestamp(point.timestamp, timeZone),
+    camera: point.deviceId ?? null,
+    photo: point.photoKey?.split('/').pop() ?? null,
+    temperature_celsius: point.temperature ?? null,
+    humidity_percent: point.humidity ?? null,
+    blanket_on: point.blanketOn ?? null,
+    cat_present: point.catPresent ?? null,
+    uptime_seconds: point.uptime ?? null,
+    reboot: point.isReboot ?? false,
+    boot_attempts: point.bootAttempts ?? null,
+    brightness: point.quality?.brightness ?? null,
+    contrast: point.quality?.contrast ?? null,
+    quality_score: point.quality?.qualityScore ?? null,
+    sharpness: point.quality?.sharpness ?? null
+  };
+}
+
+function toCsvField(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
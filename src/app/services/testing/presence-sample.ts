@@ -0,0 +1,12 @@
+import { PhotoMetadata } from '../metadata.service';
+import { PresenceSample, VisitPhoto } from '../visit-segmentation';
+
+/**
+ * Photo with its metadata for specs, keyed "<deviceId>/<ISO timestamp>"
+ */
+export function presenceSample(timestamp: Date, metadata: Partial<PhotoMetadata> = {}, deviceId = 'porch'): PresenceSample<VisitPhoto> {
+  return {
+    photo: { key: `${deviceId}/${timestamp.toISOString()}`, timestamp, deviceId },
+    metadata: metadata as PhotoMetadata
+  };
+}
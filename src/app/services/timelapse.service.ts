@@ -0,0 +1,244 @@
+import { Inject, Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { PHOTO_STORE, PhotoStore } from './photo-store';
+import { Photo } from './photo.service';
+import { MetadataService, PhotoMetadata } from './metadata.service';
+import { ActionConfigService } from './action-config.service';
+import { ExposureService } from './exposure.service';
+
+export interface TimelapseOptions {
+  fps: number;
+  width: number;
+  height: number;
+  overlay: boolean; // Draw the time and temperature on each frame
+}
+
+export interface TimelapseProgress {
+  done: number; // Frames rendered
+  total: number;
+}
+
+// Photo decoded for drawing, with what the overlay shows
+interface TimelapseFrame {
+  photo: Photo;
+  image: ImageBitmap | null; // null when the photo failed to load (the previous frame is held)
+  metadata: PhotoMetadata | null;
+}
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const PRELOAD_FRAMES = 8; // Photos downloaded ahead of the frame being drawn
+
+/**
+ * Renders photos into a WebM timelapse in the browser: frames are drawn on a canvas (with the
+ * camera's rotation and the photo's exposure) and recorded with MediaRecorder
+ * MediaRecorder records in real time, so rendering takes as long as the video lasts
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TimelapseService {
+  public progress$ = new BehaviorSubject<TimelapseProgress | null>(null);
+
+  private abortController: AbortController | null = null;
+
+  constructor(
+    @Inject(PHOTO_STORE) private store: PhotoStore,
+    private metadataService: MetadataService,
+    private config: ActionConfigService,
+    private exposure: ExposureService
+  ) { }
+
+  /**
+   * True when the browser can record a canvas to WebM
+   */
+  get supported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && !!this.getMimeType() &&
+      typeof HTMLCanvasElement.prototype.captureStream === 'function';
+  }
+
+  get rendering(): boolean {
+    return !!this.abortController;
+  }
+
+  /**
+   * Render a timelapse of photos (clips are skipped), oldest first
+   * @returns The WebM video, or null when cancelled
+   */
+  async render(photos: Photo[], options: TimelapseOptions): Promise<Blob | null> {
+    if (this.abortController) {
+      throw new Error('A timelapse is already being rendered');
+    }
+
+    const images = photos
+      .filter(photo => photo.mediaType === 'image')
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    if (images.length === 0) {
+      throw new Error('No photos to render');
+    }
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    this.progress$.next({ done: 0, total: images.length });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = options.width;
+    canvas.height = options.height;
+    const context = canvas.getContext('2d')!;
+
+    const stream = canvas.captureStream(0); // Frames are pushed with requestFrame
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType: this.getMimeType()!, videoBitsPerSecond: this.getBitrate(options) });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => chunks.push(event.data);
+    const stopped = new Promise<void>(resolve => recorder.onstop = () => resolve());
+
+    // Photos load a few frames ahead of the frame being drawn
+    const frames: Promise<TimelapseFrame>[] = [];
+    const preload = (index: number) => {
+      for (let i = index; i < Math.min(index + PRELOAD_FRAMES, images.length); i++) {
+        if (!frames[i]) {
+          frames[i] = this.loadFrame(images[i], options.overlay, abortController.signal);
+          frames[i].catch(() => undefined); // Rejected only when cancelled
+        }
+      }
+    };
+
+    try {
+      context.fillStyle = 'black';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      recorder.start();
+
+      const frameMs = 1000 / options.fps;
+      const start = performance.now();
+
+      for (let i = 0; i < images.length; i++) {
+        preload(i);
+        const frame = await frames[i];
+        abortController.signal.throwIfAborted();
+
+        this.drawFrame(context, frame, options);
+
+        // Keep the video's pace: each frame is shown for 1/fps seconds
+        const wait = start + i * frameMs - performance.now();
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+        track.requestFrame();
+        frame.image?.close();
+
+        this.progress$.next({ done: i + 1, total: images.length });
+      }
+
+      // Show the last frame for its full duration
+      await new Promise(resolve => setTimeout(resolve, frameMs));
+      recorder.stop();
+      await stopped;
+
+      console.log(`Rendered timelapse of ${images.length} photos at ${options.fps} fps`);
+      return new Blob(chunks, { type: recorder.mimeType });
+    } catch (error) {
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+      if (abortController.signal.aborted) {
+        console.log('Timelapse cancelled');
+        return null;
+      }
+      throw error;
+    } finally {
+      abortController.abort(); // Stop loading photos ahead
+      stream.getTracks().forEach(streamTrack => streamTrack.stop());
+      this.abortController = null;
+      this.progress$.next(null);
+    }
+  }
+
+  /**
+   * Stop the timelapse being rendered
+   */
+  cancel() {
+    this.abortController?.abort();
+  }
+
+  /**
+   * Download and decode a photo (fetched, so the canvas isn't tainted by a cross-origin image)
+   */
+  private async loadFrame(photo: Photo, withMetadata: boolean, signal: AbortSignal): Promise<TimelapseFrame> {
+    const metadata = withMetadata ? this.metadataService.getMetadata(photo.key) : Promise.resolve(null);
+
+    try {
+      const response = await fetch(await this.store.getUrl(photo.key), { signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return { photo, image: await createImageBitmap(await response.blob()), metadata: await metadata };
+    } catch (error) {
+      if (signal.aborted) throw error;
+
+      console.warn('Skipping timelapse frame', photo.key, ':', error);
+      return { photo, image: null, metadata: await metadata.catch(() => null) };
+    }
+  }
+
+  /**
+   * Draw a photo rotated, brightened and fitted into the canvas (letterboxed), then the overlay
+   */
+  private drawFrame(context: CanvasRenderingContext2D, frame: TimelapseFrame, options: TimelapseOptions) {
+    const { width, height } = options;
+
+    if (frame.image) {
+      const rotation = this.config.getRotation(frame.photo.deviceId);
+      const sideways = rotation % 180 !== 0;
+      const imageWidth = sideways ? frame.image.height : frame.image.width;
+      const imageHeight = sideways ? frame.image.width : frame.image.height;
+      const scale = Math.min(width / imageWidth, height / imageHeight);
+
+      context.save();
+      context.fillStyle = 'black';
+      context.fillRect(0, 0, width, height);
+      context.translate(width / 2, height / 2);
+      context.rotate(rotation * Math.PI / 180);
+      context.filter = this.exposure.getImageFilter(frame.photo, frame.image);
+      context.drawImage(frame.image,
+        -frame.image.width * scale / 2, -frame.image.height * scale / 2,
+        frame.image.width * scale, frame.image.height * scale);
+      context.restore();
+    }
+
+    // A photo that failed to load holds the previous frame, overlay included
+    if (options.overlay && frame.image) {
+      this.drawOverlay(context, frame, options);
+    }
+  }
+
+  private drawOverlay(context: CanvasRenderingContext2D, frame: TimelapseFrame, options: TimelapseOptions) {
+    const fontSize = Math.max(12, Math.round(options.height / 24));
+    const padding = Math.round(fontSize / 2);
+    const temperature = frame.metadata?.temperature_celsius;
+    const text = frame.photo.timestamp.toLocaleString('ro-RO', {
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false
+    }) + (temperature !== undefined ? `  ${temperature.toFixed(1)}°C` : '');
+
+    context.save();
+    context.font = `600 ${fontSize}px sans-serif`;
+    context.textBaseline = 'bottom';
+    const textWidth = context.measureText(text).width;
+
+    context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    context.fillRect(0, options.height - fontSize - padding * 2, textWidth + padding * 2, fontSize + padding * 2);
+    context.fillStyle = 'white';
+    context.fillText(text, padding, options.height - padding);
+    context.restore();
+  }
+
+  private getMimeType(): string | undefined {
+    return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  }
+
+  /**
+   * Enough bits for mostly static scenes: ~0.1 bit per pixel per frame, at least 1 Mbps
+   */
+  private getBitrate(options: TimelapseOptions): number {
+    return Math.max(1_000_000, Math.round(options.width * options.height * options.fps * 0.1));
+  }
+}
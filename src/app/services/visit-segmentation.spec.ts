@@ -0,0 +1,70 @@
+import { PhotoMetadata } from './metadata.service';
+import { segmentVisits } from './visit-segmentation';
+import { presenceSample } from './testing/presence-sample';
+
+describe('segmentVisits', () => {
+  const now = new Date('2025-10-30T18:00:00Z');
+
+  const sample = (time: string, secondsSinceMotion: number, extra: Partial<PhotoMetadata> = {}, deviceId?: string) => presenceSample(
+    new Date(`2025-10-30T${time}Z`), { seconds_since_last_motion: secondsSinceMotion, presence_timeout_seconds: 600, ...extra }, deviceId
+  );
+
+  it('should end a visit at a photo without the cat', () => {
+    const visits = segmentVisits([
+      sample('10:00:00', 5000),
+      sample('10:10:00', 60),
+      sample('10:20:00', 300),
+      sample('10:30:00', 700),
+      sample('10:40:00', 10)
+    ], now);
+
+    expect(visits.length).toEqual(2);
+    expect(visits[1].arrival).toEqual(new Date('2025-10-30T10:09:00Z'));
+    expect(visits[1].departure).toEqual(new Date('2025-10-30T10:15:00Z'));
+    expect(visits[1].durationSeconds).toEqual(360);
+    expect(visits[1].photos.length).toEqual(2);
+  });
+
+  it('should split visits when the cat left and came back between photos', () => {
+    const visits = segmentVisits([
+      sample('10:00:00', 10),
+      sample('11:00:00', 20) // Last motion 59 minutes after the previous one, timeout 10 minutes
+    ], now);
+
+    expect(visits.length).toEqual(2);
+  });
+
+  it('should use the 5 minute default without a reported timeout', () => {
+    const visits = segmentVisits([
+      sample('10:00:00', 10, { presence_timeout_seconds: undefined }),
+      sample('10:10:00', 400, { presence_timeout_seconds: undefined })
+    ], now);
+
+    expect(visits.length).toEqual(1);
+    expect(visits[0].photos.length).toEqual(1);
+  });
+
+  it('should pick the best scored photo and mark recent visits ongoing', () => {
+    const quality = (qualityScore: number) => ({ image_quality_metrics: { brightness: 0, contrast: 0, sharpness: 0, qualityScore } });
+    const visits = segmentVisits([
+      sample('17:40:00', 10, quality(40)),
+      sample('17:50:00', 10, quality(80)),
+      sample('17:55:00', 10, quality(60))
+    ], now);
+
+    expect(visits[0].photo.key).toEqual('porch/2025-10-30T17:50:00.000Z');
+    expect(visits[0].ongoing).toBeTrue();
+    expect(visits[0].departure).toEqual(new Date('2025-10-30T17:55:00Z'));
+  });
+
+  it('should segment each camera separately', () => {
+    const visits = segmentVisits([
+      sample('10:00:00', 10, {}, 'porch'),
+      sample('10:05:00', 5000, {}, 'garage'),
+      sample('10:10:00', 10, {}, 'porch')
+    ], now);
+
+    expect(visits.map(visit => visit.deviceId)).toEqual(['porch']);
+    expect(visits[0].photos.length).toEqual(2);
+  });
+});
@@ -0,0 +1,144 @@
+import { PhotoMetadata } from './metadata.service';
+
+// Presence timeout of firmware versions that didn't report presence_timeout_seconds
+export const DEFAULT_PRESENCE_TIMEOUT_SECONDS = 300;
+
+// Photo fields needed to segment visits (avoids depending on PhotoService)
+export interface VisitPhoto {
+  key: string;
+  timestamp: Date;
+  deviceId: string;
+}
+
+export interface PresenceSample<T extends VisitPhoto> {
+  photo: T;
+  metadata: PhotoMetadata;
+}
+
+/**
+ * Continuous stay of the cat in front of one camera
+ */
+export interface CatVisit<T extends VisitPhoto> {
+  deviceId: string;
+  arrival: Date; // First motion seen
+  departure: Date; // Last motion seen (last photo while ongoing)
+  durationSeconds: number;
+  photo: T; // Representative photo (best quality score, else the middle one)
+  photos: T[]; // Photos taken during the visit, oldest first
+  ongoing: boolean; // The cat was still present at the last photo, and it's recent
+}
+
+/**
+ * Timeout after the last motion until the camera considers the cat gone
+ */
+export function getPresenceTimeout(metadata: PhotoMetadata): number {
+  return metadata.presence_timeout_seconds ?? DEFAULT_PRESENCE_TIMEOUT_SECONDS;
+}
+
+/**
+ * True when the cat was present when the photo was taken: it moved within the camera's presence timeout
+ */
+export function isCatPresent(metadata: PhotoMetadata): boolean {
+  if (typeof metadata.seconds_since_last_motion === 'number') {
+    return metadata.seconds_since_last_motion < getPresenceTimeout(metadata);
+  }
+  return !!metadata.cat_present;
+}
+
+/**
+ * Group photos into visits, per camera
+ * A visit ends at a photo without the cat, or when no motion was seen for longer than the
+ * presence timeout between two photos with the cat (it left and came back between them)
+ * @param now Visits whose last motion is within the timeout of this time are ongoing
+ * @returns Visits, newest first
+ */
+export function segmentVisits<T extends VisitPhoto>(samples: PresenceSample<T>[], now: Date = new Date()): CatVisit<T>[] {
+  const visits: CatVisit<T>[] = [];
+  const byDevice = new Map<string, PresenceSample<T>[]>();
+
+  for (const sample of samples) {
+    const deviceSamples = byDevice.get(sample.photo.deviceId) ?? [];
+    deviceSamples.push(sample);
+    byDevice.set(sample.photo.deviceId, deviceSamples);
+  }
+
+  for (const deviceSamples of byDevice.values()) {
+    deviceSamples.sort((a, b) => a.photo.timestamp.getTime() - b.photo.timestamp.getTime());
+    visits.push(...segmentDeviceVisits(deviceSamples, now));
+  }
+
+  return visits.sort((a, b) => b.arrival.getTime() - a.arrival.getTime());
+}
+
+interface OpenVisit<T extends VisitPhoto> {
+  samples: PresenceSample<T>[];
+  arrival: number;
+  lastMotion: number;
+}
+
+function segmentDeviceVisits<T extends VisitPhoto>(samples: PresenceSample<T>[], now: Date): CatVisit<T>[] {
+  const visits: CatVisit<T>[] = [];
+  let open: OpenVisit<T> | null = null;
+  let lastAbsent = -Infinity; // Last photo without the cat
+
+  for (const sample of samples) {
+    const time = sample.photo.timestamp.getTime();
+
+    if (!isCatPresent(sample.metadata)) {
+      if (open) {
+        visits.push(toVisit(open, false));
+        open = null;
+      }
+      lastAbsent = time;
+      continue;
+    }
+
+    const motion = time - (sample.metadata.seconds_since_last_motion ?? 0) * 1000;
+    const timeoutMs = getPresenceTimeout(sample.metadata) * 1000;
+
+    // No motion for longer than the timeout since the previous photo: a new visit
+    if (open && motion - open.lastMotion > timeoutMs) {
+      visits.push(toVisit(open, false));
+      open = null;
+    }
+
+    if (!open) {
+      // The cat wasn't there at the previous photo without it
+      open = { samples: [], arrival: Math.min(Math.max(motion, lastAbsent), time), lastMotion: motion };
+    }
+
+    open.samples.push(sample);
+    open.lastMotion = Math.max(open.lastMotion, motion);
+  }
+
+  if (open) {
+    const timeoutMs = getPresenceTimeout(samples[samples.length - 1].metadata) * 1000;
+    visits.push(toVisit(open, now.getTime() - open.lastMotion < timeoutMs));
+  }
+
+  return visits;
+}
+
+function toVisit<T extends VisitPhoto>(open: OpenVisit<T>, ongoing: boolean): CatVisit<T> {
+  const photos = open.samples.map(sample => sample.photo);
+  const departure = ongoing
+    ? photos[photos.length - 1].timestamp.getTime()
+    : Math.max(open.lastMotion, open.arrival);
+
+  // Sharpest, best exposed photo, else the middle of the visit
+  const scored = open.samples.filter(sample => sample.metadata.image_quality_metrics !== undefined);
+  const photo = scored.length > 0
+    ? scored.reduce((best, sample) =>
+        sample.metadata.image_quality_metrics!.qualityScore > best.metadata.image_quality_metrics!.qualityScore ? sample : best).photo
+    : photos[Math.floor(photos.length / 2)];
+
+  return {
+    deviceId: photos[0].deviceId,
+    arrival: new Date(open.arrival),
+    departure: new Date(departure),
+    durationSeconds: Math.round((departure - open.arrival) / 1000),
+    photo,
+    photos,
+    ongoing
+  };
+}
@@ -0,0 +1,48 @@
+import { Injectable } from '@angular/core';
+import { Photo } from './photo.service';
+import { MetadataService } from './metadata.service';
+import { CatVisit, PresenceSample, segmentVisits } from './visit-segmentation';
+
+export type PhotoVisit = CatVisit<Photo>;
+
+/**
+ * Cat visits (arrival, departure, representative photo) derived from the photos' presence data
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class VisitService {
+  constructor(private metadataService: MetadataService) { }
+
+  /**
+   * Segment photos into visits, photos without metadata are skipped
+   * @param onProgress Called after each batch of metadata
+   * @returns Visits, newest first
+   */
+  async getVisits(photos: Photo[], onProgress?: (done: number, total: number) => void): Promise<PhotoVisit[]> {
+    return segmentVisits(await this.getSamples(photos, onProgress));
+  }
+
+  /**
+   * Load the photos' metadata in small batches, photos without metadata are skipped
+   * @param onProgress Called after each batch of metadata
+   */
+  async getSamples(photos: Photo[], onProgress?: (done: number, total: number) => void): Promise<PresenceSample<Photo>[]> {
+    const BATCH_SIZE = 5;
+    const samples: PresenceSample<Photo>[] = [];
+
+    for (let i = 0; i < photos.length; i += BATCH_SIZE) {
+      const batch = photos.slice(i, i + BATCH_SIZE);
+      const results = await Promise.allSettled(batch.map(photo => this.metadataService.getMetadata(photo.key)));
+
+      results.forEach((result, j) => {
+        if (result.status === 'fulfilled' && result.value) {
+          samples.push({ photo: batch[j], metadata: result.value });
+        }
+      });
+      onProgress?.(Math.min(i + BATCH_SIZE, photos.length), photos.length);
+    }
+
+    return samples;
+  }
+}
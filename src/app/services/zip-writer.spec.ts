@@ -0,0 +1,45 @@
+import { ZipWriter, crc32 } from './zip-writer';
+
+describe('ZipWriter', () => {
+  const encoder = new TextEncoder();
+
+  async function writeZip(build: (writer: ZipWriter) => Promise<void>): Promise<DataView> {
+    const chunks: Uint8Array[] = [];
+    const writer = new ZipWriter(async chunk => { chunks.push(chunk.slice()); });
+    await build(writer);
+    await writer.finish();
+
+    const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return new DataView(bytes.buffer);
+  }
+
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(encoder.encode('123456789'))).toEqual(0xcbf43926);
+    expect(crc32(encoder.encode('6789'), crc32(encoder.encode('12345')))).toEqual(0xcbf43926);
+  });
+
+  it('should write entries and a central directory pointing to them', async () => {
+    const zip = await writeZip(async writer => {
+      await writer.addEntry('a.txt', encoder.encode('hello'));
+      await writer.addEntry('b.txt', new Blob(['wor', 'ld']).stream());
+    });
+
+    // End of central directory
+    const end = zip.byteLength - 22;
+    expect(zip.getUint32(end, true)).toEqual(0x06054b50);
+    expect(zip.getUint16(end + 10, true)).toEqual(2);
+
+    // Second central directory entry: streamed content, offset of its local header
+    const central = zip.getUint32(end + 16, true);
+    const second = central + 46 + 'a.txt'.length;
+    expect(zip.getUint32(second, true)).toEqual(0x02014b50);
+    expect(zip.getUint32(second + 16, true)).toEqual(crc32(encoder.encode('world')));
+    expect(zip.getUint32(second + 24, true)).toEqual(5);
+    expect(zip.getUint32(zip.getUint32(second + 42, true), true)).toEqual(0x04034b50);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Receives the ZIP file's bytes in order (awaited, so a slow disk slows the writer down)
+ */
+export type ZipSink = (chunk: Uint8Array) => Promise<void>;
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const VERSION = 20; // 2.0: stored entries with data descriptors
+const FLAGS = 0x0808; // Sizes and CRC follow the data (bit 3), UTF-8 names (bit 11)
+const MAX_ENTRIES = 0xffff; // No ZIP64
+const MAX_OFFSET = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Update a CRC-32 (IEEE) with more bytes, start with crc = 0
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let c = ~crc;
+  for (const byte of data) {
+    c = crcTable[(c ^ byte) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+/**
+ * Streaming ZIP writer: entries are stored uncompressed (photos are already compressed) and written
+ * as they arrive, so nothing but the central directory is kept in memory
+ * Limited to 65535 entries and 4 GB (no ZIP64)
+ */
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+  private encoder = new TextEncoder();
+
+  constructor(private sink: ZipSink) { }
+
+  /**
+   * Write an entry
+   * @param name Path inside the archive, e.g. "porch/cat_20251030_123202.jpg"
+   * @param data Content, read chunk by chunk when it is a stream
+   * @param modified Modification time shown by archive tools
+   * @returns Size of the entry's content
+   */
+  async addEntry(name: string, data: Uint8Array | ReadableStream<Uint8Array>, modified: Date = new Date()): Promise<number> {
+    if (this.entries.length >= MAX_ENTRIES) {
+      throw new Error('ZIP has too many entries');
+    }
+
+    const entry: CentralEntry = {
+      name: this.encoder.encode(name),
+      crc: 0,
+      size: 0,
+      offset: this.offset,
+      ...toDosDateTime(modified)
+    };
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    header.setUint16(4, VERSION, true);
+    header.setUint16(6, FLAGS, true);
+    header.setUint16(8, 0, true); // Stored
+    header.setUint16(10, entry.time, true);
+    header.setUint16(12, entry.date, true);
+    // CRC and sizes (14-25) are 0, they follow in the data descriptor
+    header.setUint16(26, entry.name.length, true);
+    header.setUint16(28, 0, true);
+
+    await this.write(new Uint8Array(header.buffer));
+    await this.write(entry.name);
+
+    if (data instanceof Uint8Array) {
+      await this.writeData(entry, data);
+    } else {
+      const reader = data.getReader();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          await this.writeData(entry, value);
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    }
+
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    descriptor.setUint32(4, entry.crc, true);
+    descriptor.setUint32(8, entry.size, true);
+    descriptor.setUint32(12, entry.size, true);
+    await this.write(new Uint8Array(descriptor.buffer));
+
+    this.entries.push(entry);
+    return entry.size;
+  }
+
+  /**
+   * Write the central directory, the archive is complete afterwards
+   */
+  async finish(): Promise<void> {
+    const start = this.offset;
+
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      header.setUint16(4, VERSION, true); // Made by
+      header.setUint16(6, VERSION, true); // Needed
+      header.setUint16(8, FLAGS, true);
+      header.setUint16(10, 0, true); // Stored
+      header.setUint16(12, entry.time, true);
+      header.setUint16(14, entry.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      // Extra field, comment, disk, attributes (30-41) are 0
+      header.setUint32(42, entry.offset, true);
+
+      await this.write(new Uint8Array(header.buffer));
+      await this.write(entry.name);
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, this.offset - start, true);
+    end.setUint32(16, start, true);
+    await this.write(new Uint8Array(end.buffer));
+  }
+
+  private async writeData(entry: CentralEntry, chunk: Uint8Array) {
+    entry.crc = crc32(chunk, entry.crc);
+    entry.size += chunk.length;
+    await this.write(chunk);
+  }
+
+  private async write(chunk: Uint8Array) {
+    if (this.offset + chunk.length > MAX_OFFSET) {
+      throw new Error('ZIP larger than 4 GB');
+    }
+    this.offset += chunk.length;
+    await this.sink(chunk);
+  }
+}
+
+/**
+ * MS-DOS date and time (local time, 2 second precision) used by ZIP headers
+ */
+function toDosDateTime(date: Date): { time: number, date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
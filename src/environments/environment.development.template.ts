@@ -7,7 +7,22 @@ export const environment = {
     region: 'your-aws-region',
     bucketName: 'your-bucket-name',
     bucketFolder: 'your-folder-name',
+    urlExpirySeconds: 3600, // Lifetime of pre-signed photo URLs (renewed on demand)
   },
+  storage: {
+    backend: 's3', // 's3' or 'http'
+    httpBaseUrl: '', // Static file server URL, used when backend is 'http'
+  },
+  // File naming scheme: 'compact' (cat_YYYYMMDD_HHMMSS.jpg), 'iso', 'dated' (YYYY/MM/DD/ folders) or 'custom'
+  photoKeys: {
+    scheme: 'compact',
+    prefix: 'cat_',
+    pattern: '', // custom only: regex with named groups year, month, day, hour, minute, second, ext
+    dayPrefix: '', // custom only: listing prefix of a day, e.g. '{YYYY}/{MM}/{DD}/cam_'
+  },
+  // Camera registry, e.g. [{ id: 'porch', name: 'Porch box', folder: 'porch', rotation: 90, brightnessLevel: 3 }]
+  // Empty: a single camera in aws.bucketFolder (or the http base URL)
+  devices: [] as { id: string, name: string, folder?: string, rotation?: number, brightnessLevel?: number, keyScheme?: { scheme: string, prefix?: string, pattern?: string, dayPrefix?: string } }[],
   google: {
     clientId: 'your-google-client-id',
   },